@@ -0,0 +1,282 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import {
+  BaseInteraction,
+  ChatInputCommandInteraction,
+  Client,
+  MessageContextMenuCommandInteraction,
+  UserContextMenuCommandInteraction,
+} from 'discord.js';
+
+import { safeReply } from '../utils/editAndReply.js';
+import {
+  defaultCooldownStore,
+  getCooldownKey,
+  getRemainingCooldown,
+  startCooldown,
+} from '../utils/cooldown.js';
+import { formatDuration } from '../utils/formatting.js';
+import { EmbedTheme } from '../utils/EmbedTheme.class.js';
+import { OwnerCheck, PermissionLevel } from '../types/permission.js';
+import { ILogger } from '../types/logger.js';
+import { CooldownScope, CooldownStore } from '../types/cooldown.js';
+
+/**
+ * Abstract base class of slash commands and context menu commands.
+ *
+ * Holds what both kinds of commands share: context and owner validation,
+ * cooldowns, error handling and logging, and the setters the CommandManager
+ * uses to inject the logger, owner check, cooldown store and embed theme.
+ * Don't extend this directly - extend `Command`, `UserContextCommand` or
+ * `MessageContextCommand` instead.
+ */
+export abstract class BaseCommand<
+  TInteraction extends
+    | ChatInputCommandInteraction
+    | UserContextMenuCommandInteraction
+    | MessageContextMenuCommandInteraction,
+> {
+  /** The command name */
+  abstract name: string;
+
+  /** Whether this command can only be used in a guild (server) */
+  abstract guildOnly: boolean;
+
+  /** The minimum permission level required to use this command */
+  abstract permissionLevel: PermissionLevel;
+
+  /** Optional cooldown in milliseconds between command uses */
+  cooldown?: number;
+
+  /** What the cooldown applies to, defaults to `'user'` */
+  cooldownScope?: CooldownScope;
+
+  /** Logger instance to use inside the command */
+  protected logger?: ILogger;
+
+  /** Checks whether a user is a bot owner, injected by the CommandManager */
+  protected ownerCheck?: OwnerCheck;
+
+  /** Where cooldowns are kept, injected by the CommandManager */
+  protected cooldownStore?: CooldownStore;
+
+  /** Themed embeds, injected by the CommandManager */
+  protected embeds: EmbedTheme = new EmbedTheme();
+
+  /**
+   * Gets the key identifying this command in cooldown buckets.
+   *
+   * @param interaction - The interaction invoking the command
+   * @returns The command key
+   */
+  protected abstract getCommandKey(interaction: TInteraction): string;
+
+  /**
+   * Validates whether the command can be executed in the current context.
+   *
+   * Checks if the command is being used in the correct context (guild vs DM)
+   * and calls additionalValidation for any custom validation logic.
+   *
+   * @param interaction - The interaction to validate
+   * @returns Error message if validation fails, null if validation passes
+   * @protected
+   */
+  protected validate(interaction: TInteraction): string | null {
+    if (this.guildOnly && !interaction.guildId) {
+      return 'This command can only be used in a server.';
+    }
+
+    return this.additionalValidation(interaction);
+  }
+
+  /**
+   * Checks the cooldown of this command, without starting it.
+   *
+   * The cooldown bucket depends on `cooldownScope`, see `getCommandKey`.
+   *
+   * @param interaction - The interaction invoking the command
+   * @returns Error message if the command is on cooldown, null otherwise
+   * @protected
+   */
+  protected async validateCooldown(
+    interaction: TInteraction,
+  ): Promise<string | null> {
+    if (!this.cooldown) return null;
+
+    const remaining = await getRemainingCooldown(
+      this.cooldownStore ?? defaultCooldownStore,
+      this.getCooldownKey(interaction),
+    );
+
+    if (remaining > 0) {
+      return `You need to wait ${formatDuration(remaining)} before using this command again.`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Starts the cooldown of this command, once the invocation passed every check.
+   *
+   * @param interaction - The interaction invoking the command
+   * @protected
+   */
+  protected async startCooldown(interaction: TInteraction): Promise<void> {
+    if (!this.cooldown) return;
+
+    await startCooldown(
+      this.cooldownStore ?? defaultCooldownStore,
+      this.getCooldownKey(interaction),
+      this.cooldown,
+    );
+  }
+
+  /**
+   * Gets the key of the cooldown bucket of an invocation.
+   */
+  private getCooldownKey(interaction: TInteraction): string {
+    return getCooldownKey(
+      this.getCommandKey(interaction),
+      this.cooldownScope ?? 'user',
+      interaction,
+    );
+  }
+
+  /**
+   * Validates that the user is a bot owner if this is an `'owner'` level command.
+   *
+   * Owners are configured on the CommandManager with `setOwners`. Without an
+   * owner check (e.g. when the command isn't registered in a CommandManager)
+   * owner level commands can't be used by anyone.
+   *
+   * @param interaction - The interaction to validate
+   * @param client - The Discord client instance
+   * @returns Error message if validation fails, null if validation passes
+   * @protected
+   */
+  protected async validateOwner(
+    interaction: BaseInteraction,
+    client: Client,
+  ): Promise<string | null> {
+    if (this.permissionLevel !== 'owner') return null;
+
+    if (
+      this.ownerCheck &&
+      (await this.ownerCheck(interaction.user.id, client))
+    ) {
+      return null;
+    }
+
+    return 'This command can only be used by the bot owners.';
+  }
+
+  /**
+   * Hook for additional custom validation logic.
+   *
+   * Override this method in child classes to add command-specific validation.
+   * For example, checking if a user has opted in/out, premium status, etc.
+   *
+   * @param interaction - The interaction to validate
+   * @returns Error message if validation fails, null if validation passes
+   * @protected
+   *
+   * @example
+   * ```typescript
+   * protected additionalValidation(interaction: ChatInputCommandInteraction): string | null {
+   *   if (hasOptedOut(interaction.user.id)) {
+   *     return 'You have opted out of this feature.';
+   *   }
+   *   return null;
+   * }
+   * ```
+   */
+  protected additionalValidation(interaction: TInteraction): string | null {
+    return null;
+  }
+
+  /**
+   * Safely executes a function with error handling and logging.
+   *
+   * Wraps the execution in a try-catch block, logs successful executions,
+   * and automatically handles errors by logging them and sending a user-friendly
+   * error message.
+   *
+   * @param interaction - The interaction being handled
+   * @param fn - The function to execute
+   * @param executedMessage - What to log once the function succeeded
+   * @protected
+   */
+  protected async safeExecute(
+    interaction: TInteraction,
+    fn: () => Promise<any>,
+    executedMessage: string,
+  ) {
+    const scope = `${this.name}_EXECUTION`;
+
+    try {
+      await fn();
+      this.logger?.log(executedMessage, 'info', scope);
+    } catch (err: any) {
+      this.logger?.log(
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        `An Error occurred: ${err.message ?? err}`,
+        'error',
+        scope,
+        true,
+      );
+      return await safeReply(interaction, 'An unexpected error occurred.');
+    }
+  }
+
+  /**
+   * Sets the owner check for this command.
+   *
+   * @param check - Function that checks whether a user is a bot owner
+   */
+  setOwnerCheck(check: OwnerCheck): void {
+    this.ownerCheck = check;
+  }
+
+  /**
+   * Sets the store cooldowns of this command are kept in.
+   *
+   * @param store - The cooldown store
+   */
+  setCooldownStore(store: CooldownStore): void {
+    this.cooldownStore = store;
+  }
+
+  /**
+   * Sets the embed theme available as `this.embeds` in this command.
+   *
+   * @param theme - The embed theme
+   */
+  setEmbedTheme(theme: EmbedTheme): void {
+    this.embeds = theme;
+  }
+
+  /**
+   * Sets the logger for this command.
+   *
+   * @param logger - Logger instance implementing ILogger interface
+   */
+  setLogger(logger: ILogger): void {
+    this.logger = logger;
+  }
+
+  /**
+   * Log a message using the configured logger.
+   *
+   * @param message - The message to log
+   * @param level - The log level
+   * @param scope - The scope/context
+   * @param logToConsole - Whether to also log to console
+   */
+  protected log(
+    message: string,
+    level: string,
+    scope: string,
+    logToConsole: boolean = false,
+  ): void {
+    this.logger?.log(message, level, scope, logToConsole);
+  }
+}
@@ -1,5 +1,6 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import {
+  AutocompleteInteraction,
   ChatInputCommandInteraction,
   Client,
   SlashCommandBuilder,
@@ -8,10 +9,25 @@ import {
 
 import { safeReply } from '../utils/editAndReply.js';
 import { getPermissionsForLevel } from '../utils/permissions.js';
-import { checkCooldown } from '../utils/cooldown.js';
+import { getCooldownKey } from '../utils/cooldown.js';
 import { formatDuration } from '../utils/formatting.js';
-import { PermissionLevel } from '../types/permission.js';
-import { ILogger } from '../types/logger.js';
+import {
+  ConcurrencyLimitOptions,
+  RateLimitOptions,
+} from '../types/rateLimit.js';
+import {
+  acquireConcurrency,
+  consumeRateLimit,
+  getRateLimitRetryAfter,
+  hasConcurrencySlot,
+} from '../utils/rateLimit.js';
+import { CommandContext, CommandMiddleware } from '../types/middleware.js';
+import { OptionSchema, ParsedOptions } from '../types/options.js';
+import { runMiddleware } from '../utils/middleware.js';
+import { applyOptionSchema, parseOptions } from '../utils/optionSchema.js';
+
+import { BaseCommand } from './BaseCommand.class.js';
+import type { SubcommandGroup } from './SubcommandGroup.class.js';
 
 /**
  * Abstract base class for Discord slash commands.
@@ -20,6 +36,10 @@ import { ILogger } from '../types/logger.js';
  * error handling, and permission management. Child classes should extend this
  * and implement the required abstract properties and the `run` method.
  *
+ * Options can either be added imperatively in `customize`, or declared in
+ * `options` (see `defineOptions`), in which case `run` receives them parsed and
+ * typed as its `args` parameter.
+ *
  * @example
  * ```typescript
  * export class PingCommand extends Command {
@@ -34,136 +54,202 @@ import { ILogger } from '../types/logger.js';
  * }
  * ```
  */
-export abstract class Command {
+export abstract class Command<
+  TOptions extends OptionSchema = OptionSchema,
+> extends BaseCommand<ChatInputCommandInteraction> {
   /** The command name (used to invoke the command) */
   abstract name: string;
 
   /** A brief description of what the command does */
   abstract description: string;
 
-  /** Whether this command can only be used in a guild (server) */
-  abstract guildOnly: boolean;
-
-  /** The minimum permission level required to use this command */
-  abstract permissionLevel: PermissionLevel;
-
-  /** Optional cooldown in milliseconds between command uses per user */
-  cooldown?: number;
-
-  /** Logger instance to use inside the command */
-  protected logger?: ILogger;
+  /**
+   * Optional token bucket rate limit, e.g. `{ uses: 5, per: TIMES_MILISECONDS.MINUTE }`
+   * for 5 uses per minute
+   */
+  rateLimit?: RateLimitOptions;
 
   /**
-   * Validates whether the command can be executed in the current context.
-   *
-   * Checks if the command is being used in the correct context (guild vs DM)
-   * and calls additionalValidation for any custom validation logic.
-   *
-   * @param interaction - The command interaction to validate
-   * @returns Error message if validation fails, null if validation passes
-   * @protected
+   * Optional limit of how many invocations can run at the same time,
+   * e.g. `{ limit: 2, scope: 'guild' }`
    */
-  protected validate(interaction: ChatInputCommandInteraction): string | null {
-    if (this.guildOnly && !interaction.guildId) {
-      return 'This command can only be used in a server.';
-    }
-    const secondsRemaining = checkCooldown(
-      this.name,
-      this.cooldown,
-      interaction.user.id,
-    );
+  maxConcurrency?: ConcurrencyLimitOptions;
 
-    if (secondsRemaining > 0) {
-      return `You need to wait ${formatDuration(secondsRemaining)} before using this command again.`;
-    }
-
-    return this.additionalValidation(interaction);
-  }
+  /** Optional declarative option schema, parsed and passed to `run` as `args` */
+  options?: TOptions;
 
   /**
-   * Hook for additional custom validation logic.
+   * Checks the cooldown, rate limit and concurrency limit of this command
+   * and, if none of them is reached, takes all of them together.
    *
-   * Override this method in child classes to add command-specific validation.
-   * For example, checking if a user has opted in/out, premium status, etc.
+   * Nothing is used up while checking, so an invocation rejected by one
+   * limit doesn't count towards the others. The buckets depend on the
+   * configured scopes, subcommands get their own bucket per full command
+   * path, e.g. `config logging channel`.
    *
-   * @param interaction - The command interaction to validate
-   * @returns Error message if validation fails, null if validation passes
+   * @param interaction - The interaction invoking the command
+   * @returns Error message if a limit is reached, otherwise a function that
+   * frees the concurrency slot once the command finished (only with `maxConcurrency`)
    * @protected
-   *
-   * @example
-   * ```typescript
-   * protected additionalValidation(interaction: ChatInputCommandInteraction): string | null {
-   *   if (hasOptedOut(interaction.user.id)) {
-   *     return 'You have opted out of this feature.';
-   *   }
-   *   return null;
-   * }
-   * ```
    */
-  protected additionalValidation(
+  protected async acquireLimits(
     interaction: ChatInputCommandInteraction,
-  ): string | null {
-    return null;
-  }
+  ): Promise<{ error: string } | { release?: () => void }> {
+    const { rateLimit, maxConcurrency } = this;
+    const commandKey = this.getCommandKey(interaction);
+    const scope = `${this.name}_EXECUTION`;
 
-  /**
-   * Safely executes a function with error handling and logging.
-   *
-   * Wraps the execution in a try-catch block, logs successful executions,
-   * and automatically handles errors by logging them and sending a user-friendly
-   * error message.
-   *
-   * @param commandName - The name of the command being executed
-   * @param interaction - The command interaction
-   * @param fn - The function to execute
-   * @private
-   */
-  private async safeExecute(
-    commandName: string,
-    interaction: ChatInputCommandInteraction,
-    fn: () => Promise<any>,
-  ) {
-    const scope = `${commandName}_EXECUTION`;
+    const rateLimitKey = getCooldownKey(
+      `ratelimit:${commandKey}`,
+      rateLimit?.scope ?? 'user',
+      interaction,
+    );
+    const concurrencyKey = getCooldownKey(
+      `concurrency:${commandKey}`,
+      maxConcurrency?.scope ?? 'global',
+      interaction,
+    );
 
-    try {
-      await fn();
-      const subcommandName = interaction.options.getSubcommand(false);
+    const cooldownError = await this.validateCooldown(interaction);
+    if (cooldownError) return { error: cooldownError };
+
+    // Nothing is awaited between checking and taking the rate limit and
+    // concurrency slot, so concurrent invocations can't both pass those.
+    // The cooldown is read before and started after, so with an async store
+    // two invocations at the same moment may both pass the cooldown
+    const retryAfter = rateLimit
+      ? getRateLimitRetryAfter(rateLimitKey, rateLimit)
+      : 0;
+    if (retryAfter > 0) {
       this.logger?.log(
-        `${commandName} ${subcommandName ? `(${subcommandName}) ` : ``}command executed`,
-        'info',
+        `Rate limit exceeded by ${interaction.user.id} (${rateLimitKey})`,
+        'warn',
         scope,
       );
-    } catch (err: any) {
+      // Round up, so "0s" is never shown
+      const wait = formatDuration(Math.ceil(retryAfter / 1000) * 1000);
+      return {
+        error: `You're using this command too often. Try again in ${wait}.`,
+      };
+    }
+
+    if (
+      maxConcurrency &&
+      !hasConcurrencySlot(concurrencyKey, maxConcurrency.limit)
+    ) {
       this.logger?.log(
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
-        `An Error occurred: ${err.message ?? err}`,
-        'error',
+        `Concurrency limit reached for ${interaction.user.id} (${concurrencyKey})`,
+        'warn',
         scope,
-        true,
       );
-      return await safeReply(interaction, 'An unexpected error occurred.');
+      return {
+        error:
+          'This command is already running too many times. Please wait until one finishes.',
+      };
+    }
+
+    const release = maxConcurrency
+      ? acquireConcurrency(concurrencyKey, maxConcurrency.limit)
+      : null;
+    if (rateLimit) consumeRateLimit(rateLimitKey, rateLimit);
+
+    try {
+      await this.startCooldown(interaction);
+    } catch (err) {
+      release?.();
+      throw err;
     }
+
+    return { release: release ?? undefined };
+  }
+
+  /**
+   * Gets the key identifying this command in cooldown, rate limit and concurrency buckets,
+   * i.e. the full command path like `config logging channel` so subcommands
+   * don't share buckets.
+   *
+   * @param interaction - The interaction invoking the command
+   * @returns The command key
+   */
+  protected getCommandKey(interaction: ChatInputCommandInteraction): string {
+    return [
+      interaction.commandName,
+      interaction.options.getSubcommandGroup(false),
+      interaction.options.getSubcommand(false),
+    ]
+      .filter(Boolean)
+      .join(' ');
   }
 
   /**
    * Executes the command with validation and error handling.
    *
-   * This is the main entry point when a command is invoked. It performs
-   * validation, then calls the `run` method if validation passes.
+   * This is the main entry point when a command is invoked. It runs the
+   * middleware chain, performs validation, then calls the `run` method if
+   * validation passes.
    * Should not be overridden - override `run` instead.
    *
    * @param interaction - The command interaction
    * @param client - The Discord client instance
+   * @param middleware - Middleware to run around the command, usually passed by the CommandManager
+   * @param parent - The SubcommandGroup this command was invoked through, if any
    */
   async execute(
     interaction: ChatInputCommandInteraction,
     client: Client,
+    middleware: CommandMiddleware[] = [],
+    parent?: SubcommandGroup,
   ): Promise<void> {
-    await this.safeExecute(this.name, interaction, async () => {
-      const error = this.validate(interaction);
-      if (error) return await safeReply(interaction, error, true);
-      await this.run(interaction, client);
-    });
+    const subcommandName = interaction.options.getSubcommand(false);
+    const executed = `${this.name} ${subcommandName ? `(${subcommandName}) ` : ``}command executed`;
+
+    await this.safeExecute(
+      interaction,
+      async () => {
+        const ctx: CommandContext = {
+          interaction,
+          client,
+          command: parent ?? this,
+          subcommand: parent ? this : undefined,
+          state: {},
+        };
+
+        const rejection = await runMiddleware(middleware, ctx, async () => {
+          const error =
+            (await this.validateOwner(interaction, client)) ??
+            this.validate(interaction);
+          if (error) {
+            await safeReply(interaction, error, true);
+            return;
+          }
+
+          const parsed = parseOptions(
+            interaction,
+            this.options ?? ({} as TOptions),
+          );
+          if (parsed.error !== null) {
+            await safeReply(interaction, parsed.error, true);
+            return;
+          }
+
+          // Checked last, so rejected invocations don't use up any limit
+          const limits = await this.acquireLimits(interaction);
+          if ('error' in limits) {
+            await safeReply(interaction, limits.error, true);
+            return;
+          }
+
+          try {
+            await this.run(interaction, client, parsed.args);
+          } finally {
+            limits.release?.();
+          }
+        });
+
+        if (rejection) await safeReply(interaction, rejection, true);
+      },
+      executed,
+    );
   }
 
   /**
@@ -174,6 +260,7 @@ export abstract class Command {
    *
    * @param interaction - The command interaction
    * @param client - The Discord client instance
+   * @param args - The parsed values of the options declared in `options`
    * @protected
    *
    * @example
@@ -187,8 +274,80 @@ export abstract class Command {
   protected abstract run(
     interaction: ChatInputCommandInteraction,
     client: Client,
+    args: ParsedOptions<TOptions>,
   ): Promise<void>;
 
+  /**
+   * Optional autocomplete handler - implement this in child classes that have
+   * options with `setAutocomplete(true)`.
+   *
+   * Use `interaction.options.getFocused(true)` to find out which option is
+   * being typed in and respond with at most 25 choices.
+   *
+   * @param interaction - The autocomplete interaction
+   * @param client - The Discord client instance
+   *
+   * @example
+   * ```typescript
+   * async autocomplete(interaction: AutocompleteInteraction) {
+   *   const focused = interaction.options.getFocused();
+   *   const matches = timezones.filter((tz) => tz.startsWith(focused));
+   *   await interaction.respond(
+   *     matches.slice(0, 25).map((tz) => ({ name: tz, value: tz })),
+   *   );
+   * }
+   * ```
+   */
+  autocomplete?(
+    interaction: AutocompleteInteraction,
+    client: Client,
+  ): Promise<void>;
+
+  /**
+   * Handles an autocomplete interaction for this command.
+   *
+   * Calls the `autocomplete` hook if the command implements one, with the same
+   * logging and error handling as `execute`. When the hook is missing or throws,
+   * an empty list of choices is sent so the user's client doesn't hang.
+   * Should not be overridden - override `autocomplete` instead.
+   *
+   * @param interaction - The autocomplete interaction
+   * @param client - The Discord client instance
+   */
+  async executeAutocomplete(
+    interaction: AutocompleteInteraction,
+    client: Client,
+  ): Promise<void> {
+    const scope = `${this.name}_AUTOCOMPLETE`;
+
+    try {
+      const ownerError = await this.validateOwner(interaction, client);
+      if (this.autocomplete && !ownerError) {
+        await this.autocomplete(interaction, client);
+      }
+      if (!interaction.responded) {
+        await interaction.respond([]);
+      }
+      const subcommandName = interaction.options.getSubcommand(false);
+      this.logger?.log(
+        `${this.name} ${subcommandName ? `(${subcommandName}) ` : ``}autocomplete handled`,
+        'info',
+        scope,
+      );
+    } catch (err: any) {
+      this.logger?.log(
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        `An Error occurred: ${err.message ?? err}`,
+        'error',
+        scope,
+        true,
+      );
+      if (!interaction.responded) {
+        await interaction.respond([]).catch(() => undefined);
+      }
+    }
+  }
+
   /**
    * Customize the slash command builder with options, choices, etc.
    *
@@ -221,12 +380,34 @@ export abstract class Command {
     builder: SlashCommandBuilder | SlashCommandSubcommandBuilder,
   ): SlashCommandBuilder | SlashCommandSubcommandBuilder;
 
+  /**
+   * Adds the declared `options` and applies `customize` to a builder.
+   *
+   * Used by `toJSON` and by SubcommandGroup when this command is a subcommand.
+   *
+   * @param builder - The slash command or subcommand builder
+   * @returns The same builder
+   */
+  buildOptions<B extends SlashCommandBuilder | SlashCommandSubcommandBuilder>(
+    builder: B,
+  ): B {
+    if (this.options) {
+      applyOptionSchema(builder, this.options);
+    }
+
+    if (this.customize) {
+      this.customize(builder);
+    }
+
+    return builder;
+  }
+
   /**
    * Converts the command to Discord API JSON format for registration.
    *
    * This method builds the SlashCommandBuilder with the command's metadata
-   * (name, description, permissions) and any custom options, then returns
-   * the JSON representation needed for Discord's API.
+   * (name, description, permissions) and any declared or custom options, then
+   * returns the JSON representation needed for Discord's API.
    *
    * Called automatically by CommandManager when registering commands.
    *
@@ -240,36 +421,6 @@ export abstract class Command {
         getPermissionsForLevel(this.permissionLevel),
       );
 
-    if (this.customize) {
-      this.customize(builder);
-    }
-
-    return builder.toJSON();
-  }
-
-  /**
-   * Sets the logger for this command.
-   *
-   * @param logger - Logger instance implementing ILogger interface
-   */
-  setLogger(logger: ILogger): void {
-    this.logger = logger;
-  }
-
-  /**
-   * Log a message using the configured logger.
-   *
-   * @param message - The message to log
-   * @param level - The log level
-   * @param scope - The scope/context
-   * @param logToConsole - Whether to also log to console
-   */
-  protected log(
-    message: string,
-    level: string,
-    scope: string,
-    logToConsole: boolean = false,
-  ): void {
-    this.logger?.log(message, level, scope, logToConsole);
+    return this.buildOptions(builder).toJSON();
   }
 }
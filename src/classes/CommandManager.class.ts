@@ -1,37 +1,365 @@
+import fs from 'fs';
+import path from 'path';
+
 import {
+  ApplicationCommandType,
+  AutocompleteInteraction,
   ChatInputCommandInteraction,
   Client,
-  RESTPostAPIChatInputApplicationCommandsJSONBody,
+  ContextMenuCommandType,
+  MessageContextMenuCommandInteraction,
+  RESTPostAPIApplicationCommandsJSONBody,
+  UserContextMenuCommandInteraction,
 } from 'discord.js';
 
 import { ILogger } from '../types/logger.js';
+import { DeployOptions, DeployReport } from '../types/deploy.js';
+import { RegistrableCommand } from '../types/command.js';
+import { LoaderOptions } from '../types/loader.js';
+import { CommandMiddleware } from '../types/middleware.js';
+import { OwnerCheck, OwnerOptions } from '../types/permission.js';
+import { CooldownStore } from '../types/cooldown.js';
+import { deployCommands } from '../utils/deploy.js';
+import { EmbedTheme } from '../utils/EmbedTheme.class.js';
+import { fetchApplicationOwnerIds } from '../utils/owners.js';
+import {
+  DEFAULT_COMMAND_EXTENSIONS,
+  TYPESCRIPT_COMMAND_EXTENSIONS,
+  findCommandModules,
+  importCommands,
+  isCommandModuleFile,
+  withoutGroupMembers,
+} from '../utils/commandLoader.js';
 
 import { Command } from './Command.class.js';
 import { SubcommandGroup } from './SubcommandGroup.class.js';
+import { UserContextCommand } from './UserContextCommand.class.js';
+import { MessageContextCommand } from './MessageContextCommand.class.js';
 
 export class CommandManager {
   private commands: Map<string, Command | SubcommandGroup> = new Map();
+  /** Context menu commands, keyed by `type:name` since names may overlap with slash commands */
+  private contextMenus: Map<
+    string,
+    UserContextCommand | MessageContextCommand
+  > = new Map();
+  /** Commands registered from each module file by `loadFromDirectory` */
+  private moduleCommands: Map<string, RegistrableCommand[]> = new Map();
+  private watchers: fs.FSWatcher[] = [];
+  private middleware: CommandMiddleware[] = [];
+  private owners: OwnerOptions = {};
+  /** Cached lookup of the application owners, see `OwnerOptions.includeApplicationOwners` */
+  private applicationOwnerIds?: Promise<string[]>;
+  private cooldownStore?: CooldownStore;
+  private embedTheme = new EmbedTheme();
+  /** Owner check injected into every registered command */
+  private ownerCheck: OwnerCheck = (userId, client) =>
+    this.isOwner(userId, client);
   protected logger?: ILogger;
 
   /**
-   * Register a single command or subcommand group
+   * Register a single command, subcommand group or context menu command
    */
-  register(command: Command | SubcommandGroup): this {
+  register(command: RegistrableCommand): this {
     if (this.logger) {
       command.setLogger(this.logger);
     }
-    this.commands.set(command.name, command);
+    command.setOwnerCheck(this.ownerCheck);
+    if (this.cooldownStore) {
+      command.setCooldownStore(this.cooldownStore);
+    }
+    command.setEmbedTheme(this.embedTheme);
+    if (
+      command instanceof UserContextCommand ||
+      command instanceof MessageContextCommand
+    ) {
+      this.contextMenus.set(`${command.type}:${command.name}`, command);
+    } else {
+      this.commands.set(command.name, command);
+    }
     return this;
   }
 
   /**
    * Register multiple commands at once
    */
-  registerMultiple(commands: Array<Command | SubcommandGroup>): this {
+  registerMultiple(commands: RegistrableCommand[]): this {
     commands.forEach((cmd) => this.register(cmd));
     return this;
   }
 
+  /**
+   * Load all commands from a directory (recursively)
+   *
+   * Every module in the directory is imported and each exported `Command`,
+   * `SubcommandGroup` or context menu command class is instantiated and
+   * registered. Exported command instances are registered as-is. Commands
+   * that a loaded group contains as subcommands (or nested groups) are
+   * skipped, so `commands/<group>/<sub>.js` doesn't become a top-level command.
+   *
+   * Only `.js`, `.mjs` and `.cjs` files are imported by default, set
+   * `typescript` to load `.ts` and `.mts` files too.
+   *
+   * When `process.env.ENV === 'dev'` (or `watch` is set), the directory is
+   * watched and changed modules are re-imported, replacing the commands they
+   * registered before. Note that only the changed module itself is re-imported,
+   * not the modules it imports. This also means changes to a subcommand's own
+   * file are skipped, since its group keeps the instance it imported; restart
+   * the bot to pick them up. Use `deploy` afterwards if a command's
+   * definition (name, options, ...) changed.
+   *
+   * @param dir - The directory to load commands from
+   * @param options - Extensions to import and whether to watch for changes
+   *
+   * @example
+   * ```typescript
+   * await commandManager.loadFromDirectory(
+   *   path.join(import.meta.dirname, 'commands'),
+   * );
+   * ```
+   */
+  async loadFromDirectory(
+    dir: string,
+    options: LoaderOptions = {},
+  ): Promise<this> {
+    const root = path.resolve(dir);
+    const extensions = [
+      ...(options.extensions ?? DEFAULT_COMMAND_EXTENSIONS),
+      ...(options.typescript ? TYPESCRIPT_COMMAND_EXTENSIONS : []),
+    ];
+
+    // Everything is imported before registering, so subcommands are skipped
+    // no matter where in the directory their group lives
+    const modules = new Map<string, RegistrableCommand[]>();
+    for (const file of await findCommandModules(root, extensions)) {
+      modules.set(file, await this.importModule(file, false));
+    }
+
+    const groups = [...modules.values()]
+      .flat()
+      .filter((cmd) => cmd instanceof SubcommandGroup);
+
+    for (const [file, commands] of modules) {
+      this.registerModule(file, withoutGroupMembers(commands, groups), false);
+    }
+
+    if (options.watch ?? process.env.ENV === 'dev') {
+      this.watchDirectory(root, extensions);
+    }
+
+    return this;
+  }
+
+  /**
+   * Stop watching all directories loaded with `loadFromDirectory`
+   */
+  stopWatching(): void {
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers = [];
+  }
+
+  /**
+   * Re-import a single changed module and swap out the commands it registered before
+   */
+  private async reloadModule(file: string): Promise<void> {
+    const previous = this.moduleCommands.get(file) ?? [];
+
+    if (!fs.existsSync(file)) {
+      previous.forEach((cmd) => this.remove(cmd));
+      this.moduleCommands.delete(file);
+      if (previous.length) {
+        this.logger?.info(`Unloaded commands from removed ${file}`, 'LOADER');
+      }
+      return;
+    }
+
+    let commands: RegistrableCommand[];
+    try {
+      commands = await this.importModule(file, true);
+    } catch {
+      // Keep the previously loaded commands around when a reload fails
+      return;
+    }
+
+    const groups = this.getAll().filter(
+      (cmd) => cmd instanceof SubcommandGroup,
+    );
+    this.registerModule(file, withoutGroupMembers(commands, groups), true);
+  }
+
+  /**
+   * Import the commands of a module, logging failures
+   */
+  private async importModule(
+    file: string,
+    reload: boolean,
+  ): Promise<RegistrableCommand[]> {
+    try {
+      return await importCommands(file, reload);
+    } catch (err: any) {
+      this.logger?.log(
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        `Failed to ${reload ? 'reload' : 'load'} ${file}: ${err.message ?? err}`,
+        'error',
+        'LOADER',
+        true,
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Register the commands of a module, replacing the ones it registered before
+   */
+  private registerModule(
+    file: string,
+    commands: RegistrableCommand[],
+    reload: boolean,
+  ): void {
+    (this.moduleCommands.get(file) ?? []).forEach((cmd) => this.remove(cmd));
+    this.registerMultiple(commands);
+    this.moduleCommands.set(file, commands);
+
+    if (commands.length) {
+      this.logger?.info(
+        `${reload ? 'Reloaded' : 'Loaded'} ${commands.map((cmd) => cmd.name).join(', ')} from ${file}`,
+        'LOADER',
+      );
+    }
+  }
+
+  /**
+   * Watch a directory and reload modules when they change
+   */
+  private watchDirectory(root: string, extensions: string[]): void {
+    const pending = new Map<string, NodeJS.Timeout>();
+
+    const watcher = fs.watch(root, { recursive: true }, (_event, filename) => {
+      if (!filename || !isCommandModuleFile(filename, extensions)) return;
+      const file = path.join(root, filename);
+
+      // Editors often emit several events per save
+      clearTimeout(pending.get(file));
+      pending.set(
+        file,
+        setTimeout(() => {
+          pending.delete(file);
+          void this.reloadModule(file);
+        }, 100),
+      );
+    });
+
+    this.watchers.push(watcher);
+    this.logger?.info(`Watching ${root} for command changes`, 'LOADER');
+  }
+
+  /**
+   * Remove a specific command instance from whichever registry it's in
+   */
+  private remove(command: RegistrableCommand): void {
+    if (
+      command instanceof UserContextCommand ||
+      command instanceof MessageContextCommand
+    ) {
+      const key = `${command.type}:${command.name}`;
+      if (this.contextMenus.get(key) === command) this.contextMenus.delete(key);
+    } else if (this.commands.get(command.name) === command) {
+      this.commands.delete(command.name);
+    }
+  }
+
+  /**
+   * Add a middleware that runs around every slash command and subcommand
+   *
+   * Middleware runs in the order it was added, before the command's own
+   * validation. Return a message without calling `next()` to stop the
+   * command and tell the user why.
+   *
+   * @example
+   * ```typescript
+   * commandManager.use(async (ctx, next) => {
+   *   if (blacklist.has(ctx.interaction.user.id)) {
+   *     return 'You are not allowed to use this bot.';
+   *   }
+   *   const start = Date.now();
+   *   try {
+   *     await next();
+   *   } finally {
+   *     metrics.record(ctx.command.name, Date.now() - start);
+   *   }
+   * });
+   * ```
+   */
+  use(middleware: CommandMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Configure who counts as a bot owner for `'owner'` level commands
+   *
+   * @param options - Owner user IDs, whether to include the application owner(s)
+   * and an optional dev guild to deploy owner commands to
+   *
+   * @example
+   * ```typescript
+   * commandManager.setOwners({
+   *   userIds: ['123456789012345678'],
+   *   includeApplicationOwners: true,
+   *   devGuildId: process.env.DEV_GUILD_ID,
+   * });
+   * ```
+   */
+  setOwners(options: OwnerOptions): this {
+    this.owners = options;
+    this.applicationOwnerIds = undefined;
+    return this;
+  }
+
+  /**
+   * Check whether a user is one of the configured bot owners
+   *
+   * @param userId - The user ID to check
+   * @param client - The Discord client, used to look up the application owner(s)
+   */
+  async isOwner(userId: string, client: Client): Promise<boolean> {
+    if (this.owners.userIds?.includes(userId)) return true;
+    if (!this.owners.includeApplicationOwners) return false;
+
+    this.applicationOwnerIds ??= fetchApplicationOwnerIds(client).catch(
+      (err: any) => {
+        // Retry on the next check instead of caching the failure
+        this.applicationOwnerIds = undefined;
+        this.logger?.log(
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          `Failed to fetch application owners: ${err.message ?? err}`,
+          'error',
+          'OWNERS',
+          true,
+        );
+        return [];
+      },
+    );
+
+    return (await this.applicationOwnerIds).includes(userId);
+  }
+
+  /**
+   * Whether a command can only be used by bot owners
+   *
+   * Subcommand groups count as owner-only when all of their subcommands are.
+   */
+  isOwnerOnly(command: RegistrableCommand): boolean {
+    if (command instanceof SubcommandGroup) {
+      const subcommands = command.getSubcommands();
+      return (
+        subcommands.length > 0 &&
+        subcommands.every((sub) => sub.permissionLevel === 'owner')
+      );
+    }
+    return command.permissionLevel === 'owner';
+  }
+
   /**
    * Get a specific command by name
    */
@@ -53,11 +381,38 @@ export class CommandManager {
     return this.getAll().sort((a, b) => a.name.localeCompare(b.name));
   }
 
+  /**
+   * Get a specific context menu command by name and type
+   */
+  getContextMenu(
+    name: string,
+    type: ContextMenuCommandType,
+  ): UserContextCommand | MessageContextCommand | undefined {
+    return this.contextMenus.get(`${type}:${name}`);
+  }
+
+  /**
+   * Get all registered context menu commands
+   */
+  getContextMenus(): Array<UserContextCommand | MessageContextCommand> {
+    return Array.from(this.contextMenus.values());
+  }
+
   /**
    * Convert all commands to Discord JSON format for registration
+   *
+   * @param filter - Which commands to include: all of them (default), only
+   * the owner-only commands or everything except the owner-only commands
    */
-  toDiscordJSON(): RESTPostAPIChatInputApplicationCommandsJSONBody[] {
-    return this.getAll().map((cmd) => {
+  toDiscordJSON(
+    filter: 'all' | 'owner' | 'public' = 'all',
+  ): RESTPostAPIApplicationCommandsJSONBody[] {
+    const commands = [...this.getAll(), ...this.getContextMenus()].filter(
+      (cmd) =>
+        filter === 'all' || this.isOwnerOnly(cmd) === (filter === 'owner'),
+    );
+
+    return commands.map((cmd) => {
       if (process.env.ENV === 'dev') {
         console.log(`Registering: ${cmd.name}`);
       }
@@ -65,9 +420,61 @@ export class CommandManager {
     });
   }
 
+  /**
+   * Deploy all commands to Discord, globally or to a single guild
+   *
+   * Fetches the commands that are already registered, diffs them against
+   * `toDiscordJSON()` and only creates, patches or deletes what changed.
+   * Use `dryRun` to get the report without changing anything.
+   *
+   * When a `devGuildId` is configured through `setOwners`, only the
+   * owner-only commands are deployed to the dev guild and they're left out
+   * everywhere else. Set `commands` to choose explicitly.
+   *
+   * @param options - Token, application ID, optional guild ID to deploy to
+   * and which commands to deploy
+   * @returns A report of the created, updated, deleted and unchanged commands
+   */
+  async deploy(options: DeployOptions): Promise<DeployReport> {
+    const { devGuildId } = this.owners;
+    const defaultFilter = !devGuildId
+      ? 'all'
+      : options.guildId === devGuildId
+        ? 'owner'
+        : 'public';
+
+    return await deployCommands(
+      this.toDiscordJSON(options.commands ?? defaultFilter),
+      options,
+      this.logger,
+    );
+  }
+
+  /**
+   * Deploy the owner-only commands to the dev guild configured through
+   * `setOwners`, the public commands are expected to be deployed globally
+   *
+   * @param options - Token, application ID and which commands to deploy, like `deploy`
+   * @returns A report of the created, updated, deleted and unchanged commands
+   * @throws {Error} If no dev guild is configured
+   */
+  async deployToDevGuild(
+    options: Omit<DeployOptions, 'guildId'>,
+  ): Promise<DeployReport> {
+    const { devGuildId } = this.owners;
+
+    if (!devGuildId) {
+      throw new Error('No devGuildId configured, use setOwners first');
+    }
+
+    return await this.deploy({ ...options, guildId: devGuildId });
+  }
+
   /**
    * Generate paginated help pages for display in help command
    * Returns a 2D array where each inner array is a page of command descriptions
+   * Each subcommand group gets its own page, subcommands of nested groups are
+   * listed as `› group subcommand`
    *
    * @param commandsPerPage - How many regular commands to show per page (default: 10)
    * @returns 2D array of command info for pagination
@@ -80,7 +487,7 @@ export class CommandManager {
 
     for (const command of this.getAllSorted()) {
       if (command instanceof SubcommandGroup) {
-        // Each subcommand group gets its own page
+        // Each subcommand group gets its own page, nested groups included
         const page = [
           {
             name: `─── ${command.name.toUpperCase()} ───`,
@@ -108,6 +515,28 @@ export class CommandManager {
       }
     }
 
+    // Context menu commands are listed together on their own page(s)
+    const contextMenuCommands: Array<{ name: string; value: string }> = [];
+    const sortedContextMenus = this.getContextMenus().sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+    for (const command of sortedContextMenus) {
+      if (contextMenuCommands.length % commandsPerPage === 0) {
+        contextMenuCommands.push({
+          name: `─── APPS ───`,
+          value: 'Right-click a user or message and open "Apps"',
+        });
+      }
+      contextMenuCommands.push({
+        name: `› ${command.name}`,
+        value:
+          command.description ??
+          (command.type === ApplicationCommandType.User
+            ? 'User context menu command'
+            : 'Message context menu command'),
+      });
+    }
+
     // Combine subcommand pages first, then regular command pages
     const allPages = [...subcommandPages];
 
@@ -116,6 +545,10 @@ export class CommandManager {
       allPages.push(otherCommands.splice(0, commandsPerPage));
     }
 
+    while (contextMenuCommands.length) {
+      allPages.push(contextMenuCommands.splice(0, commandsPerPage));
+    }
+
     return allPages;
   }
 
@@ -134,14 +567,65 @@ export class CommandManager {
       throw new Error(`Command not found: ${commandName}`);
     }
 
-    await command.execute(interaction, client);
+    await command.execute(interaction, client, this.middleware);
+  }
+
+  /**
+   * Handle an autocomplete interaction for a command by name
+   * This is called from your interaction handler
+   */
+  async executeAutocomplete(
+    commandName: string,
+    interaction: AutocompleteInteraction,
+    client: Client,
+  ): Promise<void> {
+    const command = this.get(commandName);
+
+    if (!command) {
+      throw new Error(`Command not found: ${commandName}`);
+    }
+
+    await command.executeAutocomplete(interaction, client);
+  }
+
+  /**
+   * Execute a context menu command by name
+   * This is called from your interaction handler
+   */
+  async executeContextMenu(
+    commandName: string,
+    interaction:
+      UserContextMenuCommandInteraction | MessageContextMenuCommandInteraction,
+    client: Client,
+  ): Promise<void> {
+    if (interaction.isUserContextMenuCommand()) {
+      const command = this.getContextMenu(
+        commandName,
+        ApplicationCommandType.User,
+      );
+      if (!(command instanceof UserContextCommand)) {
+        throw new Error(`User context menu command not found: ${commandName}`);
+      }
+      await command.execute(interaction, client);
+    } else {
+      const command = this.getContextMenu(
+        commandName,
+        ApplicationCommandType.Message,
+      );
+      if (!(command instanceof MessageContextCommand)) {
+        throw new Error(
+          `Message context menu command not found: ${commandName}`,
+        );
+      }
+      await command.execute(interaction, client);
+    }
   }
 
   /**
-   * Get total number of registered commands
+   * Get total number of registered commands, context menu commands included
    */
   get size(): number {
-    return this.commands.size;
+    return this.commands.size + this.contextMenus.size;
   }
 
   /**
@@ -158,11 +642,20 @@ export class CommandManager {
     return this.commands.delete(name);
   }
 
+  /**
+   * Remove a context menu command
+   */
+  unregisterContextMenu(name: string, type: ContextMenuCommandType): boolean {
+    return this.contextMenus.delete(`${type}:${name}`);
+  }
+
   /**
    * Clear all commands
    */
   clear(): void {
     this.commands.clear();
+    this.contextMenus.clear();
+    this.moduleCommands.clear();
   }
 
   /**
@@ -172,6 +665,58 @@ export class CommandManager {
     return Array.from(this.commands.keys());
   }
 
+  /**
+   * Set the store command cooldowns are kept in, for all registered commands
+   * and commands registered later. Defaults to an in-memory store.
+   *
+   * @example
+   * ```typescript
+   * commandManager.setCooldownStore(new PrismaCooldownStore(prisma.cooldown));
+   * ```
+   */
+  setCooldownStore(store: CooldownStore): this {
+    this.cooldownStore = store;
+
+    for (const command of [
+      ...this.commands.values(),
+      ...this.contextMenus.values(),
+    ]) {
+      command.setCooldownStore(store);
+    }
+
+    return this;
+  }
+
+  /**
+   * Set the embed theme for all registered commands and commands registered
+   * later, where it's available as `this.embeds`.
+   *
+   * @example
+   * ```typescript
+   * commandManager.setEmbedTheme(new EmbedTheme({ footer: { text: 'MyBot' } }));
+   * await safeReply(interaction, '', true, [commandManager.embeds.error('Something went wrong.')]);
+   * ```
+   */
+  setEmbedTheme(theme: EmbedTheme): this {
+    this.embedTheme = theme;
+
+    for (const command of [
+      ...this.commands.values(),
+      ...this.contextMenus.values(),
+    ]) {
+      command.setEmbedTheme(theme);
+    }
+
+    return this;
+  }
+
+  /**
+   * The embed theme, for consistently styled embeds outside of commands.
+   */
+  get embeds(): EmbedTheme {
+    return this.embedTheme;
+  }
+
   setLogger(logger: ILogger): this {
     this.logger = logger;
 
@@ -179,6 +724,9 @@ export class CommandManager {
     for (const command of this.commands.values()) {
       command.setLogger(logger);
     }
+    for (const command of this.contextMenus.values()) {
+      command.setLogger(logger);
+    }
 
     return this;
   }
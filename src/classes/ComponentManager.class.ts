@@ -0,0 +1,306 @@
+import { MessageComponentInteraction } from 'discord.js';
+
+import {
+  ComponentHandler,
+  ComponentInteractionMap,
+  ComponentKind,
+  ComponentParamSchema,
+  ComponentParams,
+} from '../types/component.js';
+import { ILogger } from '../types/logger.js';
+import { safeReply } from '../utils/editAndReply.js';
+
+/**
+ * Routes button and select menu interactions to registered handlers.
+ *
+ * The counterpart of ModalManager for message components. Handlers are
+ * registered by base custom ID, and typed parameters can be encoded in the
+ * custom ID after the base ID (e.g. `close-ticket:42`).
+ *
+ * @example
+ * ```typescript
+ * const componentManager = new ComponentManager();
+ *
+ * componentManager.register({
+ *   id: 'close-ticket',
+ *   type: 'button',
+ *   params: { ticketId: 'number' },
+ *   ownerOnly: true,
+ *   handle: async (interaction, { ticketId }) => {
+ *     await closeTicket(ticketId);
+ *     await interaction.update({ content: 'Ticket closed.', components: [] });
+ *   },
+ * });
+ *
+ * const button = createButton({
+ *   type: 'close',
+ *   label: 'Close ticket',
+ *   customId: componentManager.customId('close-ticket', { ticketId: 42 }, interaction.user.id),
+ * });
+ *
+ * // In your interaction handler
+ * if (interaction.isMessageComponent() && componentManager.has(interaction.customId)) {
+ *   await componentManager.handle(interaction);
+ * }
+ * ```
+ */
+export class ComponentManager {
+  private handlers = new Map<string, ComponentHandler<any, any>>();
+  protected logger?: ILogger;
+
+  /**
+   * Registers a handler for a button or select menu.
+   *
+   * @param handler - The handler configuration
+   * @returns The ComponentManager, for chaining
+   * @throws {Error} If the ID contains a colon
+   */
+  register<
+    T extends ComponentKind,
+    // eslint-disable-next-line @typescript-eslint/no-empty-object-type
+    const S extends ComponentParamSchema = {},
+  >(handler: ComponentHandler<T, S>): this {
+    if (handler.id.includes(':')) {
+      throw new Error(`Component ID can't contain a colon: ${handler.id}`);
+    }
+
+    this.handlers.set(handler.id, handler);
+    return this;
+  }
+
+  /**
+   * Builds a custom ID for a registered handler with its parameters encoded.
+   *
+   * @param id - The base ID of the handler
+   * @param params - The parameter values, in the order of the handler's `params`
+   * @param ownerId - The user allowed to use the component, required for `ownerOnly` handlers
+   * @returns The custom ID to set on the component
+   * @throws {Error} If the handler isn't registered, the owner is missing or the ID is too long
+   */
+  customId(
+    id: string,
+    params: Record<string, string | number | boolean> = {},
+    ownerId?: string,
+  ): string {
+    const handler = this.handlers.get(id);
+
+    if (!handler) {
+      throw new Error(`Component handler not found: ${id}`);
+    }
+
+    const segments = [id];
+
+    if (handler.ownerOnly) {
+      if (!ownerId) {
+        throw new Error(
+          `Component ${id} is owner-only, an ownerId is required`,
+        );
+      }
+      segments.push(ownerId);
+    }
+
+    for (const key of Object.keys(handler.params ?? {})) {
+      if (!(key in params)) {
+        throw new Error(`Missing parameter "${key}" for component ${id}`);
+      }
+      segments.push(encodeURIComponent(String(params[key])));
+    }
+
+    const customId = segments.join(':');
+
+    // Discord limit
+    if (customId.length > 100) {
+      throw new Error(`Custom ID is longer than 100 characters: ${customId}`);
+    }
+
+    return customId;
+  }
+
+  /**
+   * Parses the parameters out of a custom ID.
+   *
+   * @returns The owner ID and parameters, or null if the custom ID is malformed
+   */
+  private parseCustomId(
+    handler: ComponentHandler,
+    customId: string,
+  ): {
+    ownerId?: string;
+    params: Record<string, string | number | boolean>;
+  } | null {
+    const segments = customId.split(':').slice(1);
+    const ownerId = handler.ownerOnly ? segments.shift() : undefined;
+    const schema = handler.params ?? {};
+    const keys = Object.keys(schema);
+
+    if ((handler.ownerOnly && !ownerId) || segments.length !== keys.length) {
+      return null;
+    }
+
+    const params: Record<string, string | number | boolean> = {};
+
+    for (const [i, key] of keys.entries()) {
+      const raw = decodeURIComponent(segments[i]);
+
+      switch (schema[key]) {
+        case 'number': {
+          const value = Number(raw);
+          if (raw === '' || Number.isNaN(value)) return null;
+          params[key] = value;
+          break;
+        }
+        case 'boolean':
+          if (raw !== 'true' && raw !== 'false') return null;
+          params[key] = raw === 'true';
+          break;
+        default:
+          params[key] = raw;
+      }
+    }
+
+    return { ownerId, params };
+  }
+
+  /**
+   * Checks whether the interaction matches the kind of component of a handler.
+   */
+  private matchesKind(
+    interaction: MessageComponentInteraction,
+    kind: ComponentKind,
+  ): interaction is ComponentInteractionMap[ComponentKind] {
+    switch (kind) {
+      case 'button':
+        return interaction.isButton();
+      case 'stringSelect':
+        return interaction.isStringSelectMenu();
+      case 'userSelect':
+        return interaction.isUserSelectMenu();
+      case 'roleSelect':
+        return interaction.isRoleSelectMenu();
+      case 'channelSelect':
+        return interaction.isChannelSelectMenu();
+    }
+  }
+
+  /**
+   * Handles a button or select menu interaction by calling the registered handler.
+   *
+   * Looks up the handler by the base ID (before the first colon), enforces
+   * `ownerOnly`, parses the parameters and calls the handler. Errors thrown by
+   * the handler are logged and the user gets an ephemeral error message.
+   *
+   * @param interaction - The button or select menu interaction
+   * @throws {Error} If no handler is found or it handles a different kind of component
+   */
+  async handle(interaction: MessageComponentInteraction): Promise<void> {
+    const baseId = interaction.customId.split(':')[0];
+    const handler = this.handlers.get(baseId);
+    const scope = `${baseId}_COMPONENT`;
+
+    if (!handler) {
+      throw new Error(`Component handler not found: ${interaction.customId}`);
+    }
+
+    if (!this.matchesKind(interaction, handler.type)) {
+      throw new Error(
+        `Component ${baseId} is registered as ${handler.type}, got ${interaction.componentType}`,
+      );
+    }
+
+    try {
+      const parsed = this.parseCustomId(handler, interaction.customId);
+
+      if (!parsed) {
+        await safeReply(
+          interaction,
+          'This component is no longer valid.',
+          true,
+        );
+        return;
+      }
+
+      if (handler.ownerOnly && parsed.ownerId !== interaction.user.id) {
+        await safeReply(interaction, 'You cannot use this button.', true);
+        return;
+      }
+
+      await handler.handle(
+        interaction,
+        parsed.params as ComponentParams<ComponentParamSchema>,
+      );
+      this.logger?.log(`${baseId} component handled`, 'info', scope);
+    } catch (err: any) {
+      this.logger?.log(
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        `An Error occurred: ${err.message ?? err}`,
+        'error',
+        scope,
+        true,
+      );
+      await safeReply(interaction, 'An unexpected error occurred.', true);
+    }
+  }
+
+  /**
+   * Retrieves a registered handler by its base ID or a full custom ID.
+   *
+   * @param customId - The base ID or a custom ID with parameters
+   * @returns The handler, or undefined if not found
+   */
+  get(customId: string): ComponentHandler | undefined {
+    return this.handlers.get(customId.split(':')[0]);
+  }
+
+  /**
+   * Checks if a handler is registered for the given base ID or custom ID.
+   *
+   * @param customId - The base ID or a custom ID with parameters
+   * @returns true if a handler exists
+   */
+  has(customId: string): boolean {
+    return this.handlers.has(customId.split(':')[0]);
+  }
+
+  /**
+   * Removes a handler from the registry.
+   *
+   * @param id - The base ID of the handler
+   * @returns true if the handler was removed, false if it didn't exist
+   */
+  remove(id: string): boolean {
+    return this.handlers.delete(id);
+  }
+
+  /**
+   * Clears all registered handlers.
+   */
+  clear(): void {
+    this.handlers.clear();
+  }
+
+  /**
+   * Gets the total number of registered handlers.
+   */
+  get size(): number {
+    return this.handlers.size;
+  }
+
+  /**
+   * Gets all registered base IDs.
+   *
+   * @returns Array of handler IDs currently in the registry
+   */
+  getComponentIds(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  /**
+   * Sets the logger for this ComponentManager.
+   *
+   * @param logger - Logger instance implementing ILogger interface
+   */
+  setLogger(logger: ILogger): this {
+    this.logger = logger;
+    return this;
+  }
+}
@@ -0,0 +1,105 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import {
+  Client,
+  ContextMenuCommandBuilder,
+  ContextMenuCommandType,
+  MessageContextMenuCommandInteraction,
+  RESTPostAPIContextMenuApplicationCommandsJSONBody,
+  UserContextMenuCommandInteraction,
+} from 'discord.js';
+
+import { safeReply } from '../utils/editAndReply.js';
+import { getPermissionsForLevel } from '../utils/permissions.js';
+
+import { BaseCommand } from './BaseCommand.class.js';
+
+/**
+ * Abstract base class for Discord context menu ("Apps") commands.
+ *
+ * Shares the validation, cooldown, permission and logging behaviour of
+ * {@link Command} through {@link BaseCommand}, but is invoked by
+ * right-clicking a user or a message instead of typing a slash command.
+ * Don't extend this directly - extend `UserContextCommand` or
+ * `MessageContextCommand` instead.
+ */
+export abstract class ContextMenuCommand<
+  TInteraction extends
+    UserContextMenuCommandInteraction | MessageContextMenuCommandInteraction,
+> extends BaseCommand<TInteraction> {
+  /** The command name (shown in the "Apps" menu) */
+  abstract name: string;
+
+  /** The kind of context menu this command appears in */
+  abstract readonly type: ContextMenuCommandType;
+
+  /**
+   * Optional description of what the command does.
+   *
+   * Discord doesn't show descriptions for context menu commands, this is only
+   * used for help pages.
+   */
+  description?: string;
+
+  /**
+   * Gets the key identifying this command in cooldown buckets, separate
+   * from slash commands with the same name.
+   *
+   * @param interaction - The interaction invoking the command
+   * @returns The command key
+   */
+  protected getCommandKey(interaction: TInteraction): string {
+    return `${this.type}:${this.name}`;
+  }
+
+  /**
+   * Executes the command with validation and error handling.
+   *
+   * Should not be overridden - override `run` instead.
+   *
+   * @param interaction - The context menu interaction
+   * @param client - The Discord client instance
+   */
+  async execute(interaction: TInteraction, client: Client): Promise<void> {
+    await this.safeExecute(
+      interaction,
+      async () => {
+        const error =
+          (await this.validateOwner(interaction, client)) ??
+          this.validate(interaction) ??
+          (await this.validateCooldown(interaction));
+        if (error) return await safeReply(interaction, error, true);
+
+        await this.startCooldown(interaction);
+        await this.run(interaction, client);
+      },
+      `${this.name} context menu command executed`,
+    );
+  }
+
+  /**
+   * The main command logic - implement this in child classes.
+   *
+   * @param interaction - The context menu interaction
+   * @param client - The Discord client instance
+   * @protected
+   */
+  protected abstract run(
+    interaction: TInteraction,
+    client: Client,
+  ): Promise<void>;
+
+  /**
+   * Converts the command to Discord API JSON format for registration.
+   *
+   * Called automatically by CommandManager when registering commands.
+   *
+   * @returns The command in Discord API JSON format
+   */
+  toJSON(): RESTPostAPIContextMenuApplicationCommandsJSONBody {
+    return new ContextMenuCommandBuilder()
+      .setName(this.name)
+      .setType(this.type)
+      .setDefaultMemberPermissions(getPermissionsForLevel(this.permissionLevel))
+      .toJSON();
+  }
+}
@@ -17,6 +17,7 @@ import {
 } from 'discord.js';
 import { PrismaClient } from '@prisma/client';
 
+import { InteractionManagers } from '../types/handler.js';
 import { TToolboxLogger } from '../utils/TToolboxLogger.class.js';
 
 /**
@@ -40,6 +41,17 @@ import { TToolboxLogger } from '../utils/TToolboxLogger.class.js';
  * handler.setupErrorHandlers();
  * await handler.setupOtherHandlers();
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Let the handler route all interactions to the managers
+ * const handler = new MyBotHandler(client, logger, prisma, {
+ *   commandManager,
+ *   modalManager,
+ *   componentManager,
+ * });
+ * await handler.setupOtherHandlers();
+ * ```
  */
 export abstract class DiscordHandler {
   /** The Discord.js client instance */
@@ -51,16 +63,28 @@ export abstract class DiscordHandler {
   /** The TToolboxLogger instance used for logging */
   private logger: TToolboxLogger;
 
+  /** The managers used by the default interaction dispatcher, Optional */
+  private managers?: InteractionManagers;
+
   /**
    * Creates a new DiscordHandler instance.
    *
    * @param client - The Discord.js client instance
+   * @param logger - The TToolboxLogger instance used for logging
    * @param prisma - The Prisma database client instance
+   * @param managers - Enables the default interaction dispatcher, which routes
+   * interactions to these managers
    */
-  constructor(client: Client, logger: TToolboxLogger, prisma?: PrismaClient) {
+  constructor(
+    client: Client,
+    logger: TToolboxLogger,
+    prisma?: PrismaClient,
+    managers?: InteractionManagers,
+  ) {
     this.client = client;
     this.prisma = prisma;
     this.logger = logger;
+    this.managers = managers;
   }
 
   /**
@@ -158,8 +182,9 @@ export abstract class DiscordHandler {
     }
 
     if (
+      this.managers ||
       this.handleInteractionCreation !==
-      baseClass.prototype.handleInteractionCreation
+        baseClass.prototype.handleInteractionCreation
     ) {
       await this.setupInteractionCreateHandler();
     }
@@ -232,6 +257,9 @@ export abstract class DiscordHandler {
    * This is called for all types of interactions: slash commands, buttons,
    * select menus, modals, etc.
    *
+   * When managers were passed to the constructor, the default implementation
+   * routes every interaction through `dispatchInteraction`.
+   *
    * @param interaction - The interaction that was created
    *
    * @example
@@ -246,9 +274,113 @@ export abstract class DiscordHandler {
    * }
    * ```
    */
-  protected abstract handleInteractionCreation(
+  protected async handleInteractionCreation(
     interaction: Interaction,
-  ): Promise<void>;
+  ): Promise<void> {
+    await this.dispatchInteraction(interaction);
+  }
+
+  /**
+   * Routes an interaction to the manager that handles it.
+   *
+   * Chat input commands, autocomplete and context menu commands go to the
+   * CommandManager, modal submissions to the ModalManager, buttons of
+   * persistent paginators to the PaginatorManager and other buttons and
+   * select menus to the ComponentManager. Unknown commands and errors thrown
+   * by the handlers are logged.
+   *
+   * Modals and components without a registered handler are ignored, since
+   * they're often handled by collectors instead.
+   *
+   * Can also be called from an overridden `handleInteractionCreation` to only
+   * handle some interactions yourself.
+   *
+   * @param interaction - The interaction to route
+   *
+   * @example
+   * ```typescript
+   * protected async handleInteractionCreation(interaction: Interaction) {
+   *   if (interaction.isButton() && interaction.customId === 'legacy') {
+   *     await handleLegacyButton(interaction);
+   *     return;
+   *   }
+   *   await this.dispatchInteraction(interaction);
+   * }
+   * ```
+   */
+  protected async dispatchInteraction(interaction: Interaction): Promise<void> {
+    const { commandManager, modalManager, componentManager, paginatorManager } =
+      this.managers ?? {};
+    const scope = 'dispatcher';
+
+    try {
+      if (interaction.isChatInputCommand() || interaction.isAutocomplete()) {
+        if (!commandManager) return;
+
+        if (!commandManager.has(interaction.commandName)) {
+          this.logger.warn(
+            `Unknown command: ${interaction.commandName}`,
+            scope,
+          );
+          return;
+        }
+
+        if (interaction.isChatInputCommand()) {
+          await commandManager.executeCommand(
+            interaction.commandName,
+            interaction,
+            this.client,
+          );
+        } else {
+          await commandManager.executeAutocomplete(
+            interaction.commandName,
+            interaction,
+            this.client,
+          );
+        }
+      } else if (interaction.isContextMenuCommand()) {
+        if (!commandManager) return;
+
+        if (
+          !commandManager.getContextMenu(
+            interaction.commandName,
+            interaction.commandType,
+          )
+        ) {
+          this.logger.warn(
+            `Unknown context menu command: ${interaction.commandName}`,
+            scope,
+          );
+          return;
+        }
+
+        await commandManager.executeContextMenu(
+          interaction.commandName,
+          interaction,
+          this.client,
+        );
+      } else if (interaction.isModalSubmit()) {
+        if (modalManager?.has(interaction.customId)) {
+          await modalManager.handleSubmit(interaction);
+        }
+      } else if (
+        interaction.isButton() &&
+        paginatorManager?.has(interaction.customId)
+      ) {
+        await paginatorManager.handle(interaction);
+      } else if (interaction.isMessageComponent()) {
+        if (componentManager?.has(interaction.customId)) {
+          await componentManager.handle(interaction);
+        }
+      }
+    } catch (err: any) {
+      this.logger.error(
+        `Failed to handle interaction ${interaction.id}: ${err}`,
+        scope,
+        true,
+      );
+    }
+  }
 
   /**
    * Sets up the Discord MessageReactionAdd event listener.
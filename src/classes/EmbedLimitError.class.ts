@@ -0,0 +1,13 @@
+import { EmbedLimitViolation } from '../types/embed.js';
+
+/**
+ * Error for embeds that exceed Discord's limits
+ */
+export class EmbedLimitError extends Error {
+  constructor(public readonly violations: EmbedLimitViolation[]) {
+    super(
+      `Embed limits exceeded:\n${violations.map((v) => `- ${v.message}`).join('\n')}`,
+    );
+    this.name = 'EmbedLimitError';
+  }
+}
@@ -0,0 +1,30 @@
+import {
+  ApplicationCommandType,
+  MessageContextMenuCommandInteraction,
+} from 'discord.js';
+
+import { ContextMenuCommand } from './ContextMenuCommand.class.js';
+
+/**
+ * Abstract base class for message context menu commands.
+ *
+ * These show up under "Apps" when right-clicking a message. The targeted
+ * message is available through `interaction.targetMessage`.
+ *
+ * @example
+ * ```typescript
+ * export class QuoteCommand extends MessageContextCommand {
+ *   name = 'Quote message';
+ *   guildOnly = true;
+ *   permissionLevel = 'user' as const;
+ *
+ *   protected async run(interaction: MessageContextMenuCommandInteraction) {
+ *     const message = interaction.targetMessage;
+ *     await safeReply(interaction, `> ${message.content}\n- ${message.author}`);
+ *   }
+ * }
+ * ```
+ */
+export abstract class MessageContextCommand extends ContextMenuCommand<MessageContextMenuCommandInteraction> {
+  readonly type = ApplicationCommandType.Message;
+}
@@ -1,12 +1,33 @@
 // core/utils/ModalManager.js
 import {
-  ActionRowBuilder,
   TextInputBuilder,
   ModalBuilder,
   ModalSubmitInteraction,
+  CommandInteraction,
+  MessageComponentInteraction,
+  LabelBuilder,
+  TextDisplayBuilder,
+  StringSelectMenuBuilder,
+  UserSelectMenuBuilder,
+  RoleSelectMenuBuilder,
+  ChannelSelectMenuBuilder,
 } from 'discord.js';
 
-import { Modal } from '../types/modal.js';
+import {
+  Modal,
+  ModalExpireReason,
+  ModalField,
+  ModalManagerOptions,
+  ModalPromptDefinition,
+  ModalPromptOptions,
+  ModalPromptResult,
+  ModalValues,
+  TextDisplayModalField,
+  TextInputModalField,
+} from '../types/modal.js';
+import { safeReply } from '../utils/editAndReply.js';
+import { TIMES_MILISECONDS } from '../utils/miliseconds.js';
+import { InteractionError } from './InteractionError.class.js';
 
 /**
  * Manages modal creation, registration, and submission handling.
@@ -15,9 +36,16 @@ import { Modal } from '../types/modal.js';
  * Modals can be registered with their submission handlers and automatically
  * cleaned up after use if marked as ephemeral.
  *
+ * Ephemeral modals that are never submitted (e.g. because the user dismissed
+ * them) expire after a TTL and are removed by a periodic sweeper. The registry
+ * is also capped in size, evicting the least recently used ephemeral modal.
+ *
  * @example
  * ```typescript
- * const modalManager = new ModalManager();
+ * const modalManager = new ModalManager({
+ *   ttl: TIMES_MILISECONDS.MINUTE * 10,
+ *   onExpire: (id, modal, reason) => logger.info(`Modal ${id} ${reason}`, 'modals'),
+ * });
  *
  * // Create and register a modal
  * const modal = modalManager.buildAndRegister({
@@ -30,10 +58,17 @@ import { Modal } from '../types/modal.js';
  *       name: 'Your Feedback',
  *       style: TextInputStyle.Paragraph,
  *       required: true,
- *     }
+ *     },
+ *     {
+ *       customId: 'rating',
+ *       name: 'Rating (1-5)',
+ *       style: TextInputStyle.Short,
+ *       type: 'integer',
+ *       validate: (value) => /^[1-5]$/.test(value) ? null : 'must be between 1 and 5.',
+ *     },
  *   ],
- *   onSubmit: async (interaction) => {
- *     const feedback = interaction.fields.getTextInputValue('message');
+ *   onSubmit: async (interaction, { message, rating }) => {
+ *     await saveFeedback(message, rating);
  *     await interaction.reply('Thank you for your feedback!');
  *   }
  * });
@@ -42,7 +77,39 @@ import { Modal } from '../types/modal.js';
  * ```
  */
 export class ModalManager {
-  private modals = new Map<string, Modal>();
+  /** Registered modals, ordered from least to most recently used */
+  private modals = new Map<string, Modal<any>>();
+  /** Expiry timestamps of modals with a TTL */
+  private expiresAt = new Map<string, number>();
+  private sweeper?: NodeJS.Timeout;
+
+  private ttl: number;
+  private maxSize: number;
+  private onExpire?: ModalManagerOptions['onExpire'];
+
+  /**
+   * Creates a new ModalManager.
+   *
+   * @param options - TTL, sweeper and size limit configuration
+   */
+  constructor(options: ModalManagerOptions = {}) {
+    const {
+      ttl = TIMES_MILISECONDS.MINUTE * 15,
+      sweepInterval = TIMES_MILISECONDS.MINUTE,
+      maxSize = 1000,
+      onExpire,
+    } = options;
+
+    this.ttl = ttl;
+    this.maxSize = maxSize;
+    this.onExpire = onExpire;
+
+    if (sweepInterval > 0) {
+      this.sweeper = setInterval(() => this.sweep(), sweepInterval);
+      // Don't keep the process alive just for the sweeper
+      this.sweeper.unref();
+    }
+  }
 
   /**
    * Builds a Discord ModalBuilder and registers the modal for submission handling.
@@ -68,38 +135,211 @@ export class ModalManager {
    *       value: existingMessage,
    *     }
    *   ],
-   *   onSubmit: async (interaction) => {
-   *     const newMessage = interaction.fields.getTextInputValue('message');
-   *     await updateReminder(id, newMessage);
+   *   onSubmit: async (interaction, { message }) => {
+   *     await updateReminder(id, message);
    *   }
    * });
    *
    * await buttonInteraction.showModal(modal);
    * ```
    */
-  buildAndRegister(data: Modal): ModalBuilder {
+  buildAndRegister<const F extends readonly ModalField[]>(
+    data: Modal<F>,
+  ): ModalBuilder {
     const modal = new ModalBuilder().setCustomId(data.id).setTitle(data.title);
 
     for (const field of data.fields) {
-      const input = new TextInputBuilder()
-        .setCustomId(field.customId)
-        .setLabel(field.name)
-        .setStyle(field.style)
-        .setRequired(field.required ?? true);
-
-      if (field.placeholder) input.setPlaceholder(field.placeholder);
-      if (field.minLength) input.setMinLength(field.minLength);
-      if (field.maxLength) input.setMaxLength(field.maxLength);
-      if (field.value) input.setValue(field.value);
-
-      const row = new ActionRowBuilder<TextInputBuilder>().addComponents(input);
-      modal.addComponents(row);
+      if (field.component === 'textDisplay') {
+        modal.addTextDisplayComponents(
+          new TextDisplayBuilder().setContent(field.content),
+        );
+      } else {
+        modal.addLabelComponents(this.buildLabel(field));
+      }
     }
 
+    this.modals.delete(data.id);
     this.modals.set(data.id, data);
+
+    const ttl = data.ttl ?? (data.ephemeral ? this.ttl : 0);
+    if (ttl > 0) {
+      this.expiresAt.set(data.id, Date.now() + ttl);
+    } else {
+      this.expiresAt.delete(data.id);
+    }
+
+    this.evict();
     return modal;
   }
 
+  /**
+   * Builds a field and wraps it in a label.
+   */
+  private buildLabel(
+    field: Exclude<ModalField, TextDisplayModalField>,
+  ): LabelBuilder {
+    const label = new LabelBuilder().setLabel(field.name);
+    const required = field.required ?? true;
+
+    if (field.description) label.setDescription(field.description);
+
+    switch (field.component) {
+      case 'stringSelect': {
+        const menu = new StringSelectMenuBuilder()
+          .setCustomId(field.customId)
+          .setRequired(required)
+          .addOptions(
+            field.options.map((option) => ({
+              label: option.label,
+              value: option.value,
+              ...(option.description
+                ? { description: option.description }
+                : {}),
+              ...(option.emoji ? { emoji: { name: option.emoji } } : {}),
+              ...(option.default ? { default: true } : {}),
+            })),
+          );
+
+        if (field.placeholder) menu.setPlaceholder(field.placeholder);
+        if (field.minValues !== undefined) menu.setMinValues(field.minValues);
+        if (field.maxValues !== undefined) menu.setMaxValues(field.maxValues);
+
+        return label.setStringSelectMenuComponent(menu);
+      }
+      case 'userSelect': {
+        const menu = new UserSelectMenuBuilder()
+          .setCustomId(field.customId)
+          .setRequired(required);
+
+        if (field.placeholder) menu.setPlaceholder(field.placeholder);
+        if (field.minValues !== undefined) menu.setMinValues(field.minValues);
+        if (field.maxValues !== undefined) menu.setMaxValues(field.maxValues);
+        if (field.defaultValues) menu.addDefaultUsers(...field.defaultValues);
+
+        return label.setUserSelectMenuComponent(menu);
+      }
+      case 'roleSelect': {
+        const menu = new RoleSelectMenuBuilder()
+          .setCustomId(field.customId)
+          .setRequired(required);
+
+        if (field.placeholder) menu.setPlaceholder(field.placeholder);
+        if (field.minValues !== undefined) menu.setMinValues(field.minValues);
+        if (field.maxValues !== undefined) menu.setMaxValues(field.maxValues);
+        if (field.defaultValues) menu.addDefaultRoles(...field.defaultValues);
+
+        return label.setRoleSelectMenuComponent(menu);
+      }
+      case 'channelSelect': {
+        const menu = new ChannelSelectMenuBuilder()
+          .setCustomId(field.customId)
+          .setRequired(required);
+
+        if (field.placeholder) menu.setPlaceholder(field.placeholder);
+        if (field.minValues !== undefined) menu.setMinValues(field.minValues);
+        if (field.maxValues !== undefined) menu.setMaxValues(field.maxValues);
+        if (field.channelTypes) menu.addChannelTypes(...field.channelTypes);
+        if (field.defaultValues) {
+          menu.addDefaultChannels(...field.defaultValues);
+        }
+
+        return label.setChannelSelectMenuComponent(menu);
+      }
+      default: {
+        const input = new TextInputBuilder()
+          .setCustomId(field.customId)
+          .setStyle(field.style)
+          .setRequired(required);
+
+        if (field.placeholder) input.setPlaceholder(field.placeholder);
+        if (field.minLength) input.setMinLength(field.minLength);
+        if (field.maxLength) input.setMaxLength(field.maxLength);
+        if (field.value) input.setValue(field.value);
+
+        return label.setTextInputComponent(input);
+      }
+    }
+  }
+
+  /**
+   * Evicts the least recently used ephemeral modals while the registry is too big.
+   */
+  private evict(): void {
+    if (this.modals.size <= this.maxSize) return;
+
+    for (const [id, modal] of this.modals) {
+      if (this.modals.size <= this.maxSize) break;
+      if (!modal.ephemeral) continue;
+
+      this.expire(id, modal, 'evicted');
+    }
+  }
+
+  /**
+   * Removes a modal that wasn't submitted and calls the onExpire hook.
+   */
+  private expire(
+    id: string,
+    modal: Modal<any>,
+    reason: ModalExpireReason,
+  ): void {
+    this.remove(id);
+    this.onExpire?.(id, modal, reason);
+  }
+
+  /**
+   * Looks up a modal by its exact ID, expiring it if its TTL has passed.
+   * Marks the modal as most recently used.
+   */
+  private lookup(id: string): Modal<any> | undefined {
+    const modal = this.modals.get(id);
+    if (!modal) return undefined;
+
+    const expiresAt = this.expiresAt.get(id);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.expire(id, modal, 'expired');
+      return undefined;
+    }
+
+    this.modals.delete(id);
+    this.modals.set(id, modal);
+    return modal;
+  }
+
+  /**
+   * Removes all modals whose TTL has passed.
+   *
+   * Called periodically by the sweeper, but can also be called manually.
+   *
+   * @returns The number of removed modals
+   */
+  sweep(): number {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [id, expiresAt] of this.expiresAt) {
+      if (expiresAt > now) continue;
+
+      const modal = this.modals.get(id);
+      if (modal) {
+        this.expire(id, modal, 'expired');
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Stops the periodic sweeper.
+   *
+   * Expired modals are still never returned by `get`.
+   */
+  stopSweeping(): void {
+    clearInterval(this.sweeper);
+    this.sweeper = undefined;
+  }
+
   /**
    * Retrieves a registered modal by its ID.
    *
@@ -107,6 +347,8 @@ export class ModalManager {
    * using the base ID (before the first colon). This allows for modals with
    * dynamic suffixes like "edit-reminder:123".
    *
+   * Modals whose TTL has passed are removed instead of returned.
+   *
    * @param id - The modal ID to look up
    * @returns The modal configuration, or undefined if not found
    *
@@ -119,14 +361,14 @@ export class ModalManager {
    * const modal = modalManager.get('edit-reminder:123'); // Works!
    * ```
    */
-  get(id: string): Modal | undefined {
+  get(id: string): Modal<any> | undefined {
     // Try exact match first
-    const modal = this.modals.get(id);
+    const modal = this.lookup(id);
     if (modal) return modal;
 
     // Try base ID (before colon) for dynamic IDs
     const baseId = id.split(':')[0];
-    return this.modals.get(baseId);
+    return this.lookup(baseId);
   }
 
   /**
@@ -146,14 +388,17 @@ export class ModalManager {
    * ```
    */
   remove(id: string): boolean {
+    this.expiresAt.delete(id);
     return this.modals.delete(id);
   }
 
   /**
    * Handles a modal submission by calling the registered onSubmit handler.
    *
-   * Looks up the modal by ID, calls its onSubmit handler, and automatically
-   * removes ephemeral modals from the registry after submission.
+   * Looks up the modal by ID, validates and parses the field values and calls
+   * its onSubmit handler with them. When any field is invalid, the user gets an
+   * ephemeral reply listing the errors and onSubmit isn't called. Ephemeral
+   * modals are removed from the registry after submission either way.
    *
    * @param interaction - The modal submit interaction
    * @throws {Error} If no modal is found for the interaction's custom ID
@@ -175,7 +420,24 @@ export class ModalManager {
       throw new Error(`Modal not found: ${interaction.customId}`);
     }
 
-    await modal.onSubmit(interaction);
+    const { values, errors } = this.parseValues(modal.fields, interaction);
+
+    if (errors.length > 0) {
+      // A submitted modal can't be reopened, so there's nothing to keep it for
+      if (modal.ephemeral) {
+        this.remove(interaction.customId);
+      }
+
+      await safeReply(
+        interaction,
+        `Please fix the following fields:\n${errors.map((e) => `- ${e}`).join('\n')}`,
+        true,
+      );
+      await modal.onInvalid?.(interaction, errors);
+      return;
+    }
+
+    await modal.onSubmit(interaction, values);
 
     // Clean up ephemeral modals
     if (modal.ephemeral) {
@@ -183,14 +445,238 @@ export class ModalManager {
     }
   }
 
+  /**
+   * Shows a modal and waits for the user to submit it.
+   *
+   * The modal is registered under a unique ID (`<id>:<interaction id>`), so
+   * the same modal can be open for several users at once. Submissions still
+   * have to be routed through `handleSubmit`. The modal is removed from the
+   * registry once it's submitted or the timeout expires.
+   *
+   * @param interaction - The interaction to show the modal for
+   * @param data - The modal configuration, without `ephemeral` and `onSubmit`
+   * @param options - Prompt options
+   * @returns The parsed values and the submit interaction
+   * @throws {InteractionError} With reason `expired` if the modal isn't submitted in time,
+   * or `failed` if the modal couldn't be shown or a field was invalid
+   *
+   * @example
+   * ```typescript
+   * const { values, interaction: submit } = await modalManager.prompt(
+   *   interaction,
+   *   {
+   *     id: 'rename',
+   *     title: 'Rename',
+   *     fields: [
+   *       { customId: 'name', name: 'New name', style: TextInputStyle.Short },
+   *     ],
+   *   },
+   *   { timeout: TIMES_MILISECONDS.MINUTE },
+   * );
+   *
+   * await rename(values.name);
+   * await submit.reply({ content: 'Renamed!', flags: MessageFlags.Ephemeral });
+   * ```
+   */
+  prompt<const F extends readonly ModalField[]>(
+    interaction: CommandInteraction | MessageComponentInteraction,
+    data: ModalPromptDefinition<F>,
+    options: ModalPromptOptions = {},
+  ): Promise<ModalPromptResult<F>> {
+    const { timeout = TIMES_MILISECONDS.MINUTE * 5 } = options;
+    const id = `${data.id}:${interaction.id}`;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.remove(id);
+        reject(
+          new InteractionError(
+            `Modal was not submitted in time: ${data.id}`,
+            interaction.id,
+            'expired',
+          ),
+        );
+      }, timeout);
+
+      const modal = this.buildAndRegister({
+        ...data,
+        id,
+        ephemeral: true,
+        ttl: timeout,
+        onSubmit: async (submitInteraction, values) => {
+          clearTimeout(timer);
+          resolve({ values, interaction: submitInteraction });
+        },
+        onInvalid: async (submitInteraction, errors) => {
+          clearTimeout(timer);
+          reject(
+            new InteractionError(
+              `Modal was submitted with invalid fields: ${errors.join(' ')}`,
+              submitInteraction.id,
+              'failed',
+            ),
+          );
+        },
+      });
+
+      interaction.showModal(modal).catch((err: unknown) => {
+        clearTimeout(timer);
+        this.remove(id);
+        reject(
+          new InteractionError(
+            `Failed to show modal: ${err instanceof Error ? err.message : String(err)}`,
+            interaction.id,
+            'failed',
+          ),
+        );
+      });
+    });
+  }
+
+  /**
+   * Parses and validates the submitted value of a single field.
+   *
+   * @returns The parsed value, or an error message if the value is invalid
+   */
+  private parseValue(
+    field: TextInputModalField,
+    raw: string,
+  ): { value: unknown; error: null } | { value: null; error: string } {
+    const invalid = (message: string) => ({
+      value: null,
+      error: `\`${field.name}\` ${message}`,
+    });
+
+    if (field.pattern && !field.pattern.test(raw)) {
+      return invalid('has an invalid format.');
+    }
+
+    const error = field.validate?.(raw);
+    if (error) return invalid(error);
+
+    if (field.parse) {
+      try {
+        return { value: field.parse(raw), error: null };
+      } catch (err: any) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        return invalid(err.message ?? 'is invalid.');
+      }
+    }
+
+    switch (field.type ?? 'string') {
+      case 'integer': {
+        const value = Number(raw.trim());
+        if (!/^[+-]?\d+$/.test(raw.trim()) || !Number.isSafeInteger(value)) {
+          return invalid('must be a whole number.');
+        }
+        return { value, error: null };
+      }
+      case 'number': {
+        const value = Number(raw.trim());
+        if (raw.trim() === '' || !Number.isFinite(value)) {
+          return invalid('must be a number.');
+        }
+        return { value, error: null };
+      }
+      case 'url':
+        if (!URL.canParse(raw.trim())) {
+          return invalid('must be a valid URL.');
+        }
+        return { value: new URL(raw.trim()), error: null };
+      case 'date': {
+        const value = new Date(raw.trim());
+        if (Number.isNaN(value.getTime())) {
+          return invalid('must be a valid date.');
+        }
+        return { value, error: null };
+      }
+      default:
+        return { value: raw, error: null };
+    }
+  }
+
+  /**
+   * Reads the submitted values of a select menu.
+   *
+   * @returns The selected values for string selects, or a collection of the
+   * selected entities for user, role and channel selects
+   */
+  private getSelectedValues(
+    field: Exclude<ModalField, TextDisplayModalField | TextInputModalField>,
+    interaction: ModalSubmitInteraction,
+  ) {
+    switch (field.component) {
+      case 'stringSelect':
+        return [...interaction.fields.getStringSelectValues(field.customId)];
+      case 'userSelect':
+        return interaction.fields.getSelectedUsers(field.customId);
+      case 'roleSelect':
+        return interaction.fields.getSelectedRoles(field.customId);
+      case 'channelSelect':
+        return interaction.fields.getSelectedChannels(field.customId);
+    }
+  }
+
+  /**
+   * Reads, validates and parses the submitted values of all fields.
+   *
+   * Optional fields that are left empty are `null` and aren't validated.
+   *
+   * @returns The parsed values keyed by field custom ID, and the errors of all invalid fields
+   */
+  private parseValues<F extends readonly ModalField[]>(
+    fields: F,
+    interaction: ModalSubmitInteraction,
+  ): { values: ModalValues<F>; errors: string[] } {
+    const values: Record<string, unknown> = {};
+    const errors: string[] = [];
+
+    for (const field of fields) {
+      if (field.component === 'textDisplay') continue;
+
+      if (
+        field.component === 'stringSelect' ||
+        field.component === 'userSelect' ||
+        field.component === 'roleSelect' ||
+        field.component === 'channelSelect'
+      ) {
+        const selected = this.getSelectedValues(field, interaction);
+        const empty =
+          !selected ||
+          (Array.isArray(selected) ? selected.length : selected.size) === 0;
+
+        values[field.customId] =
+          empty && field.required === false ? null : selected;
+        continue;
+      }
+
+      const raw = interaction.fields.getTextInputValue(field.customId);
+
+      if (raw === '' && field.required === false) {
+        values[field.customId] = null;
+        continue;
+      }
+
+      const { value, error } = this.parseValue(field, raw);
+      if (error) {
+        errors.push(error);
+        continue;
+      }
+
+      values[field.customId] = value;
+    }
+
+    return { values: values as ModalValues<F>, errors };
+  }
+
   /**
    * Checks if a modal with the given ID is registered.
    *
    * @param id - The modal ID to check
-   * @returns true if the modal exists in the registry
+   * @returns true if the modal exists in the registry and hasn't expired
    */
   has(id: string): boolean {
-    return this.modals.has(id) || this.modals.has(id.split(':')[0]);
+    return this.get(id) !== undefined;
   }
 
   /**
@@ -200,6 +686,7 @@ export class ModalManager {
    */
   clear(): void {
     this.modals.clear();
+    this.expiresAt.clear();
   }
 
   /**
@@ -0,0 +1,362 @@
+import {
+  ButtonInteraction,
+  ChatInputCommandInteraction,
+  MessageContextMenuCommandInteraction,
+  UserContextMenuCommandInteraction,
+} from 'discord.js';
+
+import { ILogger } from '../types/logger.js';
+import { PersistentPage, PersistentPaginator } from '../types/paginator.js';
+import { safeReply } from '../utils/editAndReply.js';
+import { createButton, createButtonsRow } from '../utils/embeds.js';
+
+/** The pagination buttons */
+type PageAction = 'first' | 'prev' | 'next' | 'last';
+
+/**
+ * Stateless paginated embeds that keep working after a restart.
+ *
+ * Unlike PaginatedEmbed, nothing is kept in memory and no collector is used:
+ * the data key and target page are encoded in the custom IDs of the buttons,
+ * and the page is fetched again on every click. This makes it suitable for
+ * long-lived messages such as help menus and lists.
+ *
+ * Custom IDs look like `<id>:<action>:<page>[:<ownerId>]:<key>`, so keep the
+ * key short (Discord allows 100 characters) and make sure the paginator IDs
+ * don't clash with ComponentManager IDs.
+ *
+ * @example
+ * ```typescript
+ * const paginatorManager = new PaginatorManager();
+ *
+ * paginatorManager.register<Warning>({
+ *   id: 'warnings',
+ *   fetchPage: (guildId, index) => db.warning.findFirst({ where: { guildId }, skip: index }),
+ *   count: (guildId) => db.warning.count({ where: { guildId } }),
+ *   buildEmbed: (warning, index, total) => [
+ *     embedBuilder({ title: `Warning ${index + 1}/${total}`, description: warning.reason }),
+ *   ],
+ * });
+ *
+ * // In a command
+ * await paginatorManager.send(interaction, 'warnings', interaction.guildId);
+ *
+ * // In your interaction handler
+ * if (interaction.isButton() && paginatorManager.has(interaction.customId)) {
+ *   await paginatorManager.handle(interaction);
+ * }
+ * ```
+ */
+export class PaginatorManager {
+  private paginators = new Map<string, PersistentPaginator>();
+  protected logger?: ILogger;
+
+  /**
+   * Registers a paginator.
+   *
+   * @param paginator - The paginator configuration
+   * @returns The PaginatorManager, for chaining
+   * @throws {Error} If the ID contains a colon
+   */
+  register<T>(paginator: PersistentPaginator<T>): this {
+    if (paginator.id.includes(':')) {
+      throw new Error(`Paginator ID can't contain a colon: ${paginator.id}`);
+    }
+
+    this.paginators.set(paginator.id, paginator);
+    return this;
+  }
+
+  /**
+   * Builds the custom ID of a pagination button.
+   *
+   * @throws {Error} If the ID is too long
+   */
+  private customId(
+    paginator: PersistentPaginator,
+    action: PageAction,
+    index: number,
+    key: string,
+    ownerId?: string,
+  ): string {
+    // buildPage makes sure owner-only paginators have an owner
+    const owner = paginator.ownerOnly && ownerId ? [ownerId] : [];
+    const customId = [
+      paginator.id,
+      action,
+      `${index}`,
+      ...owner,
+      encodeURIComponent(key),
+    ].join(':');
+
+    // Discord limit
+    if (customId.length > 100) {
+      throw new Error(`Custom ID is longer than 100 characters: ${customId}`);
+    }
+
+    return customId;
+  }
+
+  /**
+   * Parses the page, owner and key out of a custom ID.
+   *
+   * @returns The parsed custom ID, or null if it's malformed
+   */
+  private parseCustomId(
+    paginator: PersistentPaginator,
+    customId: string,
+  ): { index: number; ownerId?: string; key: string } | null {
+    const segments = customId.split(':').slice(2);
+    const index = Number(segments.shift());
+    const ownerId = paginator.ownerOnly ? segments.shift() : undefined;
+
+    if (
+      !Number.isInteger(index) ||
+      index < 0 ||
+      (paginator.ownerOnly && !ownerId) ||
+      segments.length !== 1
+    ) {
+      return null;
+    }
+
+    return { index, ownerId, key: decodeURIComponent(segments[0]) };
+  }
+
+  /**
+   * Builds a page of a paginator with its buttons.
+   *
+   * Use this to send a paginator yourself, e.g. with `channel.send`.
+   *
+   * @param id - The ID of the paginator
+   * @param key - The data key passed to `fetchPage` and `count`
+   * @param index - The index of the page. Defaults to 0
+   * @param ownerId - The user allowed to change the page, required for `ownerOnly` paginators
+   * @returns The page, or null if it doesn't exist
+   * @throws {Error} If the paginator isn't registered or the owner is missing
+   */
+  async buildPage(
+    id: string,
+    key: string,
+    index: number = 0,
+    ownerId?: string,
+  ): Promise<PersistentPage | null> {
+    const paginator = this.paginators.get(id);
+
+    if (!paginator) {
+      throw new Error(`Paginator not found: ${id}`);
+    }
+
+    if (paginator.ownerOnly && !ownerId) {
+      throw new Error(`Paginator ${id} is owner-only, an ownerId is required`);
+    }
+
+    const [item, total] = await Promise.all([
+      paginator.fetchPage(key, index),
+      paginator.count ? paginator.count(key) : null,
+    ]);
+
+    if (item === null || item === undefined) return null;
+
+    const isLast = total !== null && index >= total - 1;
+    const targets: Record<PageAction, { index: number; disabled: boolean }> = {
+      first: { index: 0, disabled: index === 0 },
+      prev: { index: Math.max(0, index - 1), disabled: index === 0 },
+      next: { index: index + 1, disabled: isLast },
+      // There's no last page to jump to without a count
+      last: {
+        index: total === null ? index : total - 1,
+        disabled: total === null || isLast,
+      },
+    };
+    const actions: PageAction[] = paginator.firstLast
+      ? ['first', 'prev', 'next', 'last']
+      : ['prev', 'next'];
+
+    const buttons = actions.map((action) =>
+      createButton({
+        type: action,
+        customId: this.customId(
+          paginator,
+          action,
+          targets[action].index,
+          key,
+          ownerId,
+        ),
+        disabled: targets[action].disabled,
+      }),
+    );
+
+    return {
+      embeds: paginator.buildEmbed(item, index, total, key),
+      components: [createButtonsRow([], { buttons, location: 'embrace' })],
+    };
+  }
+
+  /**
+   * Replies to an interaction with a page of a paginator.
+   *
+   * For `ownerOnly` paginators, the user of the interaction becomes the owner.
+   *
+   * @param interaction - The interaction to reply to
+   * @param id - The ID of the paginator
+   * @param key - The data key passed to `fetchPage` and `count`
+   * @param options - The page to start at (defaults to 0) and whether the reply is ephemeral
+   * @throws {Error} If the paginator isn't registered
+   */
+  async send(
+    interaction:
+      | ChatInputCommandInteraction
+      | UserContextMenuCommandInteraction
+      | MessageContextMenuCommandInteraction
+      | ButtonInteraction,
+    id: string,
+    key: string,
+    {
+      index = 0,
+      ephemeral = false,
+    }: { index?: number; ephemeral?: boolean } = {},
+  ): Promise<void> {
+    const page = await this.buildPage(id, key, index, interaction.user.id);
+
+    if (!page) {
+      await safeReply(interaction, 'Nothing to show.', true);
+      return;
+    }
+
+    await safeReply(interaction, '', ephemeral, page.embeds, page.components);
+  }
+
+  /**
+   * Handles a click on a pagination button by fetching and showing the target page.
+   *
+   * Enforces `ownerOnly`. If the page no longer exists, the user gets an
+   * ephemeral message and the current page stays. Errors are logged and the
+   * user gets an ephemeral error message.
+   *
+   * @param interaction - The button interaction
+   * @throws {Error} If no paginator is found
+   */
+  async handle(interaction: ButtonInteraction): Promise<void> {
+    const baseId = interaction.customId.split(':')[0];
+    const paginator = this.paginators.get(baseId);
+    const scope = `${baseId}_PAGINATOR`;
+
+    if (!paginator) {
+      throw new Error(`Paginator not found: ${interaction.customId}`);
+    }
+
+    try {
+      const parsed = this.parseCustomId(paginator, interaction.customId);
+
+      if (!parsed) {
+        await safeReply(
+          interaction,
+          'This component is no longer valid.',
+          true,
+        );
+        return;
+      }
+
+      if (paginator.ownerOnly && parsed.ownerId !== interaction.user.id) {
+        await safeReply(interaction, 'You cannot use this button.', true);
+        return;
+      }
+
+      // Fetching the page may take longer than Discord waits for a response
+      await interaction.deferUpdate();
+
+      const page = await this.buildPage(
+        baseId,
+        parsed.key,
+        parsed.index,
+        parsed.ownerId,
+      );
+
+      if (!page) {
+        await safeReply(interaction, "That page doesn't exist anymore.", true);
+        return;
+      }
+
+      await interaction.editReply(page);
+      this.logger?.log(`${baseId} paginator handled`, 'info', scope);
+    } catch (err: any) {
+      this.logger?.log(
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        `An Error occurred: ${err.message ?? err}`,
+        'error',
+        scope,
+        true,
+      );
+      try {
+        await safeReply(interaction, 'An unexpected error occurred.', true);
+      } catch {
+        // The interaction may have expired
+      }
+    }
+  }
+
+  /**
+   * Retrieves a registered paginator by its ID or a full custom ID.
+   *
+   * @param customId - The paginator ID or a custom ID of one of its buttons
+   * @returns The paginator, or undefined if not found
+   */
+  get(customId: string): PersistentPaginator | undefined {
+    return this.paginators.get(customId.split(':')[0]);
+  }
+
+  /**
+   * Checks if a paginator is registered for the given ID or custom ID.
+   *
+   * @param customId - The paginator ID or a custom ID of one of its buttons
+   * @returns true if a paginator exists
+   */
+  has(customId: string): boolean {
+    return this.paginators.has(customId.split(':')[0]);
+  }
+
+  /**
+   * Removes a paginator from the registry.
+   *
+   * Buttons of messages it was sent with stop working.
+   *
+   * @param id - The ID of the paginator
+   * @returns true if the paginator was removed, false if it didn't exist
+   */
+  remove(id: string): boolean {
+    return this.paginators.delete(id);
+  }
+
+  /**
+   * Clears all registered paginators.
+   */
+  clear(): void {
+    this.paginators.clear();
+  }
+
+  /**
+   * Gets the total number of registered paginators.
+   */
+  get size(): number {
+    return this.paginators.size;
+  }
+
+  /**
+   * Gets all registered paginator IDs.
+   *
+   * @returns Array of paginator IDs currently in the registry
+   */
+  getPaginatorIds(): string[] {
+    return Array.from(this.paginators.keys());
+  }
+
+  /**
+   * Sets the logger for this PaginatorManager.
+   *
+   * @param logger - Logger instance implementing ILogger interface
+   */
+  setLogger(logger: ILogger): this {
+    this.logger = logger;
+    return this;
+  }
+}
@@ -1,4 +1,5 @@
 import {
+  AutocompleteInteraction,
   ChatInputCommandInteraction,
   Client,
   RESTPostAPIChatInputApplicationCommandsJSONBody,
@@ -7,6 +8,10 @@ import {
 
 import { safeReply } from '../utils/editAndReply.js';
 import { ILogger } from '../types/logger.js';
+import { CommandMiddleware } from '../types/middleware.js';
+import { OwnerCheck } from '../types/permission.js';
+import { CooldownStore } from '../types/cooldown.js';
+import { EmbedTheme } from '../utils/EmbedTheme.class.js';
 
 import { Command } from './Command.class.js';
 
@@ -31,6 +36,34 @@ import { Command } from './Command.class.js';
  *   ]);
  * }
  * ```
+ *
+ * One level of nested groups is supported through `subcommandGroups`,
+ * for commands like `/config logging channel`:
+ *
+ * @example
+ * ```typescript
+ * class LoggingConfig extends SubcommandGroup {
+ *   name = 'logging';
+ *   description = 'Logging settings';
+ *
+ *   protected subcommands = new Map<string, Command>([
+ *     ['channel', new LogChannelCommand()],
+ *   ]);
+ * }
+ *
+ * export class ConfigCommands extends SubcommandGroup {
+ *   name = 'config';
+ *   description = 'Bot configuration';
+ *
+ *   protected subcommands = new Map<string, Command>([
+ *     ['reset', new ResetConfigCommand()],
+ *   ]);
+ *
+ *   protected subcommandGroups = new Map<string, SubcommandGroup>([
+ *     ['logging', new LoggingConfig()],
+ *   ]);
+ * }
+ * ```
  */
 export abstract class SubcommandGroup {
   /** The parent command name (e.g., 'birthday' for `/birthday set`) */
@@ -42,6 +75,12 @@ export abstract class SubcommandGroup {
   /** Map of subcommand names to Command instances */
   protected abstract subcommands: Map<string, Command>;
 
+  /**
+   * Optional map of nested subcommand group names to SubcommandGroup instances.
+   * Nested groups can only contain subcommands, not further groups.
+   */
+  protected subcommandGroups?: Map<string, SubcommandGroup>;
+
   /** The logger instance used in the subcommand group */
   protected logger?: ILogger;
 
@@ -66,9 +105,14 @@ export abstract class SubcommandGroup {
   ) {
     try {
       await fn();
-      const subcommandName = interaction.options.getSubcommand(false);
+      const subcommandPath = [
+        interaction.options.getSubcommandGroup(false),
+        interaction.options.getSubcommand(false),
+      ]
+        .filter(Boolean)
+        .join(' ');
       this.logger?.log(
-        `${commandName} ${subcommandName ? `(${subcommandName}) ` : ``}command executed`,
+        `${commandName} ${subcommandPath ? `(${subcommandPath}) ` : ``}command executed`,
         'info',
         scope,
       );
@@ -82,7 +126,7 @@ export abstract class SubcommandGroup {
    * Executes the appropriate subcommand based on the user's interaction.
    *
    * This method:
-   * 1. Determines which subcommand was invoked
+   * 1. Determines which subcommand (and nested group, if any) was invoked
    * 2. Looks up the corresponding Command instance
    * 3. Executes the subcommand with error handling
    *
@@ -90,6 +134,7 @@ export abstract class SubcommandGroup {
    *
    * @param interaction - The command interaction
    * @param client - The Discord client instance
+   * @param middleware - Middleware to run around the subcommand, usually passed by the CommandManager
    * @throws {Error} If the subcommand name doesn't exist in the subcommands map
    *
    * @example
@@ -101,29 +146,87 @@ export abstract class SubcommandGroup {
   async execute(
     interaction: ChatInputCommandInteraction,
     client: Client,
+    middleware: CommandMiddleware[] = [],
   ): Promise<void> {
-    const subcommandName = interaction.options.getSubcommand();
-    const subcommand = this.subcommands.get(subcommandName);
-
-    if (!subcommand) {
-      throw new Error(`Unknown subcommand: ${subcommandName}`);
-    }
+    const subcommand = this.resolveFromInteraction(interaction);
 
     const scope = `${subcommand.name}_EXECUTION`;
 
     await this.safeExecute(this.name, scope, interaction, () =>
-      subcommand.execute(interaction, client),
+      subcommand.execute(interaction, client, middleware, this),
     );
   }
 
+  /**
+   * Forwards an autocomplete interaction to the focused subcommand.
+   *
+   * The subcommand handles its own logging and error handling through
+   * `Command.executeAutocomplete`.
+   *
+   * Called automatically by the CommandManager when an option of one of
+   * this group's subcommands is being autocompleted.
+   *
+   * @param interaction - The autocomplete interaction
+   * @param client - The Discord client instance
+   * @throws {Error} If the subcommand name doesn't exist in the subcommands map
+   */
+  async executeAutocomplete(
+    interaction: AutocompleteInteraction,
+    client: Client,
+  ): Promise<void> {
+    const subcommand = this.resolveFromInteraction(interaction);
+    await subcommand.executeAutocomplete(interaction, client);
+  }
+
+  /**
+   * Looks up a subcommand, optionally inside a nested subcommand group.
+   *
+   * @param groupName - The nested group name, or null for direct subcommands
+   * @param subcommandName - The subcommand name
+   * @returns The Command instance, or undefined if it doesn't exist
+   */
+  resolveSubcommand(
+    groupName: string | null,
+    subcommandName: string,
+  ): Command | undefined {
+    if (groupName) {
+      return this.subcommandGroups
+        ?.get(groupName)
+        ?.subcommands.get(subcommandName);
+    }
+    return this.subcommands.get(subcommandName);
+  }
+
+  /**
+   * Looks up the subcommand that was invoked by an interaction.
+   *
+   * @throws {Error} If the subcommand (or its group) doesn't exist
+   */
+  private resolveFromInteraction(
+    interaction: ChatInputCommandInteraction | AutocompleteInteraction,
+  ): Command {
+    const groupName = interaction.options.getSubcommandGroup(false);
+    const subcommandName = interaction.options.getSubcommand();
+    const subcommand = this.resolveSubcommand(groupName, subcommandName);
+
+    if (!subcommand) {
+      throw new Error(
+        `Unknown subcommand: ${groupName ? `${groupName} ` : ''}${subcommandName}`,
+      );
+    }
+
+    return subcommand;
+  }
+
   /**
    * Converts the command group to Discord API JSON format for registration.
    *
    * This method:
    * 1. Creates a SlashCommandBuilder with the group's name and description
    * 2. Adds each subcommand from the subcommands map
-   * 3. Applies any custom options from each subcommand's `customize` method
-   * 4. Returns the JSON representation needed for Discord's API
+   * 3. Adds each nested group from the subcommandGroups map with its subcommands
+   * 4. Applies each subcommand's declared `options` and `customize` method
+   * 5. Returns the JSON representation needed for Discord's API
    *
    * Called automatically by CommandManager when registering commands.
    *
@@ -143,12 +246,28 @@ export abstract class SubcommandGroup {
     for (const cmd of this.subcommands.values()) {
       builder.addSubcommand((sc) => {
         sc.setName(cmd.name).setDescription(cmd.description);
+        return cmd.buildOptions(sc);
+      });
+    }
+
+    for (const group of this.subcommandGroups?.values() ?? []) {
+      if (group.subcommandGroups?.size) {
+        throw new Error(
+          `Subcommand group ${this.name} ${group.name} can't contain nested groups`,
+        );
+      }
+
+      builder.addSubcommandGroup((sg) => {
+        sg.setName(group.name).setDescription(group.description);
 
-        if (cmd.customize) {
-          cmd.customize(sc);
+        for (const cmd of group.subcommands.values()) {
+          sg.addSubcommand((sc) => {
+            sc.setName(cmd.name).setDescription(cmd.description);
+            return cmd.buildOptions(sc);
+          });
         }
 
-        return sc;
+        return sg;
       });
     }
 
@@ -161,6 +280,9 @@ export abstract class SubcommandGroup {
    * Useful for generating help text or documentation about available subcommands.
    * Used by CommandManager's `getHelpPages` method to display subcommands in the help command.
    *
+   * Subcommands of nested groups are included after the direct subcommands,
+   * with the group name prefixed to their name and set as `group`.
+   *
    * @returns Array of objects containing subcommand names and descriptions
    *
    * @example
@@ -171,13 +293,91 @@ export abstract class SubcommandGroup {
    * //   { name: 'set', description: 'Set your birthday' },
    * //   { name: 'calendar', description: 'View birthday calendar' }
    * // ]
+   *
+   * const configSubcommands = configCommands.getSubcommandList();
+   * // Returns:
+   * // [
+   * //   { name: 'reset', description: 'Reset the configuration' },
+   * //   { name: 'logging channel', description: 'Set the log channel', group: 'logging' }
+   * // ]
    * ```
    */
-  getSubcommandList(): Array<{ name: string; description: string }> {
-    return Array.from(this.subcommands.values()).map((sub) => ({
-      name: sub.name,
-      description: sub.description,
-    }));
+  getSubcommandList(): Array<{
+    name: string;
+    description: string;
+    group?: string;
+  }> {
+    const list: Array<{ name: string; description: string; group?: string }> =
+      Array.from(this.subcommands.values()).map((sub) => ({
+        name: sub.name,
+        description: sub.description,
+      }));
+
+    for (const group of this.subcommandGroups?.values() ?? []) {
+      for (const sub of group.subcommands.values()) {
+        list.push({
+          name: `${group.name} ${sub.name}`,
+          description: sub.description,
+          group: group.name,
+        });
+      }
+    }
+
+    return list;
+  }
+
+  /**
+   * Gets the nested subcommand groups of this group.
+   *
+   * @returns Array of the nested SubcommandGroup instances
+   */
+  getSubcommandGroups(): SubcommandGroup[] {
+    return Array.from(this.subcommandGroups?.values() ?? []);
+  }
+
+  /**
+   * Gets all subcommand instances of this group, including those of nested groups.
+   *
+   * @returns Array of the subcommands
+   */
+  getSubcommands(): Command[] {
+    return [
+      ...this.subcommands.values(),
+      ...this.getSubcommandGroups().flatMap((group) => group.getSubcommands()),
+    ];
+  }
+
+  /**
+   * Sets the owner check for all subcommands of this group.
+   *
+   * @param check - Function that checks whether a user is a bot owner
+   */
+  setOwnerCheck(check: OwnerCheck): void {
+    for (const subcommand of this.getSubcommands()) {
+      subcommand.setOwnerCheck(check);
+    }
+  }
+
+  /**
+   * Sets the cooldown store for all subcommands of this group.
+   *
+   * @param store - The cooldown store
+   */
+  setCooldownStore(store: CooldownStore): void {
+    for (const subcommand of this.getSubcommands()) {
+      subcommand.setCooldownStore(store);
+    }
+  }
+
+  /**
+   * Sets the embed theme for all subcommands of this group.
+   *
+   * @param theme - The embed theme
+   */
+  setEmbedTheme(theme: EmbedTheme): void {
+    for (const subcommand of this.getSubcommands()) {
+      subcommand.setEmbedTheme(theme);
+    }
   }
 
   /**
@@ -0,0 +1,30 @@
+import {
+  ApplicationCommandType,
+  UserContextMenuCommandInteraction,
+} from 'discord.js';
+
+import { ContextMenuCommand } from './ContextMenuCommand.class.js';
+
+/**
+ * Abstract base class for user context menu commands.
+ *
+ * These show up under "Apps" when right-clicking a user. The targeted user is
+ * available through `interaction.targetUser` (and `interaction.targetMember`
+ * in guilds).
+ *
+ * @example
+ * ```typescript
+ * export class AvatarCommand extends UserContextCommand {
+ *   name = 'Show avatar';
+ *   guildOnly = false;
+ *   permissionLevel = 'user' as const;
+ *
+ *   protected async run(interaction: UserContextMenuCommandInteraction) {
+ *     await safeReply(interaction, interaction.targetUser.displayAvatarURL(), true);
+ *   }
+ * }
+ * ```
+ */
+export abstract class UserContextCommand extends ContextMenuCommand<UserContextMenuCommandInteraction> {
+  readonly type = ApplicationCommandType.User;
+}
@@ -1,25 +1,150 @@
 // Classes
+export { BaseCommand } from './classes/BaseCommand.class.js';
 export { Command } from './classes/Command.class.js';
 export { SubcommandGroup } from './classes/SubcommandGroup.class.js';
+export { ContextMenuCommand } from './classes/ContextMenuCommand.class.js';
+export { UserContextCommand } from './classes/UserContextCommand.class.js';
+export { MessageContextCommand } from './classes/MessageContextCommand.class.js';
 export { CommandManager } from './classes/CommandManager.class.js';
 export { DiscordHandler } from './classes/DiscordHandler.class.js';
 export { ModalManager } from './classes/ModalManager.class.js';
+export { ComponentManager } from './classes/ComponentManager.class.js';
+export { PaginatorManager } from './classes/PaginatorManager.class.js';
 export { PaginatedEmbed } from './utils/PaginatedEmbed.class.js';
+export { Wizard } from './utils/Wizard.class.js';
+export { EmbedTheme } from './utils/EmbedTheme.class.js';
+export { MemoryCooldownStore } from './utils/MemoryCooldownStore.class.js';
+export { FileCooldownStore } from './utils/FileCooldownStore.class.js';
+export { PrismaCooldownStore } from './utils/PrismaCooldownStore.class.js';
 
 // Types
-export type { PermissionLevel } from './types/permission.js';
-export type { Modal, ModalField } from './types/modal.js';
+export type {
+  PermissionLevel,
+  OwnerOptions,
+  OwnerCheck,
+} from './types/permission.js';
+export type {
+  Modal,
+  ModalField,
+  TextInputModalField,
+  StringSelectModalField,
+  UserSelectModalField,
+  RoleSelectModalField,
+  ChannelSelectModalField,
+  TextDisplayModalField,
+  ModalSelectOption,
+  ModalExpireReason,
+  ModalManagerOptions,
+  ModalFieldType,
+  ModalFieldValue,
+  ModalValues,
+  ModalPromptDefinition,
+  ModalPromptOptions,
+  ModalPromptResult,
+} from './types/modal.js';
 export type { ButtonType } from './types/button.js';
+export type {
+  ComponentHandler,
+  ComponentKind,
+  ComponentInteractionMap,
+  ComponentParamType,
+  ComponentParamSchema,
+  ComponentParams,
+} from './types/component.js';
+export type { CooldownScope, CooldownStore } from './types/cooldown.js';
+export type {
+  RateLimitOptions,
+  ConcurrencyLimitOptions,
+} from './types/rateLimit.js';
+export type { PrismaCooldownDelegate } from './utils/PrismaCooldownStore.class.js';
+export type { PersistentPaginator, PersistentPage } from './types/paginator.js';
+export type {
+  PaginatedDataSource,
+  PaginatedEmbedOptions,
+} from './utils/PaginatedEmbed.class.js';
 export type { ILogger } from './types/logger.js';
+export type { RegistrableCommand } from './types/command.js';
+export type { LoaderOptions } from './types/loader.js';
+export type { InteractionManagers } from './types/handler.js';
+export type { CommandContext, CommandMiddleware } from './types/middleware.js';
+export type {
+  OptionSchema,
+  OptionDefinition,
+  OptionChoice,
+  OptionValue,
+  ParsedOptions,
+  StringOptionDefinition,
+  IntegerOptionDefinition,
+  NumberOptionDefinition,
+  BooleanOptionDefinition,
+  UserOptionDefinition,
+  ChannelOptionDefinition,
+  RoleOptionDefinition,
+  MentionableOptionDefinition,
+  AttachmentOptionDefinition,
+} from './types/options.js';
+export type {
+  DeployOptions,
+  DeployReport,
+  DeployChange,
+} from './types/deploy.js';
+export type {
+  WizardText,
+  WizardModalStep,
+  WizardSelectStep,
+  WizardSelectOption,
+  WizardButtonsStep,
+  WizardOptions,
+  WizardResult,
+  WizardStartInteraction,
+  WizardStepInteraction,
+} from './types/wizard.js';
+export type { ConfirmOptions, ConfirmResult } from './types/confirm.js';
+export type { EmbedLimit, EmbedLimitViolation } from './types/embed.js';
+export type {
+  ContainerChild,
+  MessageLayoutComponent,
+  MediaGalleryItem,
+} from './types/layout.js';
+export type {
+  SafeReplyInteraction,
+  SafeReplyOptions,
+  SafeEditOptions,
+  ReplyFile,
+  AutoDeferOptions,
+} from './types/reply.js';
+export type {
+  EmbedVariant,
+  EmbedVariantStyle,
+  EmbedTemplate,
+  EmbedThemeOptions,
+  TemplateValues,
+} from './types/theme.js';
 
 // Utilities
 export { getPermissionsForLevel } from './utils/permissions.js';
+export { fetchApplicationOwnerIds } from './utils/owners.js';
 export {
   embedBuilder,
   createButton,
   createButtonsRow,
   createPaginationButtons,
+  splitEmbed,
+  chunkEmbeds,
+  createTextDisplay,
+  createSeparator,
+  createSection,
+  createMediaGallery,
+  createContainer,
+  isComponentsV2,
 } from './utils/embeds.js';
+export {
+  EMBED_LIMITS,
+  embedLength,
+  checkEmbedLimits,
+  assertEmbedLimits,
+  splitText,
+} from './utils/embedLimits.js';
 export {
   stringOption,
   integerOption,
@@ -28,7 +153,19 @@ export {
   channelOption,
   roleOption,
 } from './utils/slashCommandOptions.js';
+export {
+  defineOptions,
+  applyOptionSchema,
+  parseOptions,
+} from './utils/optionSchema.js';
 export { safeReply, safeEdit } from './utils/editAndReply.js';
+export { autoDefer } from './utils/autoDefer.js';
+export { confirm } from './utils/confirm.js';
+export {
+  deployCommands,
+  diffCommands,
+  isCommandEqual,
+} from './utils/deploy.js';
 export {
   formatDuration,
   formatDateToString,
@@ -36,9 +173,17 @@ export {
   formatDateToDDMMYYYY,
   getDaySuffix,
   capitalizeFirst,
+  fillTemplate,
 } from './utils/formatting.js';
 export { TIMES_MILISECONDS } from './utils/miliseconds.js';
+export {
+  checkCooldown,
+  getCooldownKey,
+  getRemainingCooldown,
+  startCooldown,
+} from './utils/cooldown.js';
 export { TToolboxLogger } from './utils/TToolboxLogger.class.js';
 
 // Errors
 export { InteractionError } from './classes/InteractionError.class.js';
+export { EmbedLimitError } from './classes/EmbedLimitError.class.js';
@@ -1,3 +1,6 @@
-export type ButtonType = 'prev' | 'next' | 'edit' | 'delete';
+export type ButtonType =
+  'first' | 'prev' | 'next' | 'last' | 'goto' | 'edit' | 'delete';
 
 export type PaginationButtonLocation = 'embrace' | 'start' | 'end';
+
+export type PaginationNavigation = 'buttons' | 'select';
@@ -0,0 +1,10 @@
+import type { Command } from '../classes/Command.class.js';
+import type { SubcommandGroup } from '../classes/SubcommandGroup.class.js';
+import type { UserContextCommand } from '../classes/UserContextCommand.class.js';
+import type { MessageContextCommand } from '../classes/MessageContextCommand.class.js';
+
+/**
+ * Any command that can be registered in a CommandManager.
+ */
+export type RegistrableCommand =
+  Command | SubcommandGroup | UserContextCommand | MessageContextCommand;
@@ -0,0 +1,89 @@
+import {
+  ButtonInteraction,
+  ChannelSelectMenuInteraction,
+  RoleSelectMenuInteraction,
+  StringSelectMenuInteraction,
+  UserSelectMenuInteraction,
+} from 'discord.js';
+
+/**
+ * The interaction type handled for each kind of component.
+ */
+export type ComponentInteractionMap = {
+  button: ButtonInteraction;
+  stringSelect: StringSelectMenuInteraction;
+  userSelect: UserSelectMenuInteraction;
+  roleSelect: RoleSelectMenuInteraction;
+  channelSelect: ChannelSelectMenuInteraction;
+};
+
+/**
+ * The kinds of components a ComponentManager can route.
+ */
+export type ComponentKind = keyof ComponentInteractionMap;
+
+/**
+ * The supported types of custom ID parameters.
+ */
+export type ComponentParamType = 'string' | 'number' | 'boolean';
+
+/**
+ * Schema of the parameters encoded in a custom ID, in order.
+ *
+ * @example
+ * ```typescript
+ * { ticketId: 'number', reason: 'string' } // => "close-ticket:42:spam"
+ * ```
+ */
+export type ComponentParamSchema = Record<string, ComponentParamType>;
+
+/**
+ * The parsed parameters for a parameter schema.
+ */
+export type ComponentParams<S extends ComponentParamSchema> = {
+  -readonly [K in keyof S]: S[K] extends 'number'
+    ? number
+    : S[K] extends 'boolean'
+      ? boolean
+      : string;
+};
+
+/**
+ * Represents a handler for button or select menu interactions.
+ */
+export type ComponentHandler<
+  T extends ComponentKind = ComponentKind,
+  S extends ComponentParamSchema = ComponentParamSchema,
+> = {
+  /**
+   * The base custom ID of the component, without parameters.
+   * Must not contain a colon.
+   */
+  id: string;
+
+  /**
+   * The kind of component this handler handles.
+   */
+  type: T;
+
+  /**
+   * Parameters encoded in the custom ID after the base ID, separated by colons.
+   * Build custom IDs with `ComponentManager.customId` to get them encoded correctly.
+   */
+  params?: S;
+
+  /**
+   * When `true`, only the user whose ID was passed to `ComponentManager.customId`
+   * can use the component. Others get an ephemeral error instead.
+   */
+  ownerOnly?: boolean;
+
+  /**
+   * Handler function called when the component is used.
+   * Provides the interaction and the parsed custom ID parameters.
+   */
+  handle: (
+    interaction: ComponentInteractionMap[T],
+    params: ComponentParams<S>,
+  ) => Promise<any>;
+};
@@ -0,0 +1,32 @@
+import { ILogger } from './logger.js';
+
+/**
+ * Options for a confirmation dialog.
+ */
+export type ConfirmOptions = {
+  /** The title of the dialog's embed */
+  title: string;
+  /** The description of the dialog's embed, e.g. what's being confirmed */
+  description?: string;
+  /** Label of the confirm button. Defaults to `'Confirm'` */
+  confirmLabel?: string;
+  /** Label of the cancel button. Defaults to `'Cancel'` */
+  cancelLabel?: string;
+  /** How long to wait for an answer, in milliseconds. Defaults to 1 minute */
+  timeout?: number;
+  /**
+   * Whether the action is destructive, which makes the confirm button red.
+   * Defaults to `false`.
+   */
+  danger?: boolean;
+  /** Whether the dialog is only visible to the user. Defaults to `true` */
+  ephemeral?: boolean;
+  /** Logger for errors while answering the button clicks */
+  logger?: ILogger;
+};
+
+/**
+ * The answer to a confirmation dialog: `true` if confirmed, `false` if
+ * cancelled or `'timeout'` if the user didn't answer in time.
+ */
+export type ConfirmResult = boolean | 'timeout';
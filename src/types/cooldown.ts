@@ -0,0 +1,39 @@
+/**
+ * What a command's cooldown applies to.
+ *
+ * - `user`: each user has their own cooldown (default)
+ * - `guild`: the cooldown is shared by everyone in a guild
+ * - `channel`: the cooldown is shared by everyone in a channel
+ * - `global`: one cooldown for everyone, everywhere
+ */
+export type CooldownScope = 'user' | 'guild' | 'channel' | 'global';
+
+/**
+ * Storage backend for command cooldowns.
+ *
+ * Keys identify a cooldown bucket (command + scope), values are the timestamp
+ * in milliseconds at which the command can be used again.
+ *
+ * @example
+ * ```typescript
+ * const redisStore: CooldownStore = {
+ *   get: async (key) => Number(await redis.get(key)) || null,
+ *   set: async (key, expiresAt) => {
+ *     await redis.set(key, expiresAt, { PXAT: expiresAt });
+ *   },
+ *   delete: async (key) => {
+ *     await redis.del(key);
+ *   },
+ * };
+ *
+ * commandManager.setCooldownStore(redisStore);
+ * ```
+ */
+export interface CooldownStore {
+  /** Gets the timestamp (ms) the cooldown expires at, or null if there's none */
+  get(key: string): Promise<number | null>;
+  /** Starts a cooldown that expires at the given timestamp (ms) */
+  set(key: string, expiresAt: number): Promise<void>;
+  /** Removes a cooldown */
+  delete(key: string): Promise<void>;
+}
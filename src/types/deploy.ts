@@ -0,0 +1,71 @@
+import { ApplicationCommandType } from 'discord.js';
+
+/**
+ * Options for deploying commands to Discord.
+ */
+export type DeployOptions = {
+  /** The bot token used to authenticate against the Discord API */
+  token: string;
+  /** The application (client) ID of the bot */
+  applicationId: string;
+  /**
+   * Guild to deploy the commands to.
+   * When omitted, the commands are deployed globally.
+   */
+  guildId?: string;
+  /**
+   * When `true`, only computes what would change without calling any
+   * create/update/delete endpoints. Defaults to `false`.
+   */
+  dryRun?: boolean;
+  /**
+   * Whether commands that are registered on Discord but not defined locally
+   * should be deleted. Defaults to `true`.
+   */
+  deleteUnknown?: boolean;
+  /**
+   * Base URL of the Discord API, without version.
+   * Defaults to `https://discord.com/api`. Mostly useful for testing against
+   * a local stand-in of the REST API.
+   */
+  apiBaseUrl?: string;
+  /**
+   * Which commands `CommandManager.deploy` deploys: all of them, only the
+   * owner-only commands or everything except the owner-only commands.
+   *
+   * Defaults to `'owner'` for the dev guild configured through `setOwners`,
+   * `'public'` everywhere else when a dev guild is configured and `'all'`
+   * otherwise, so public commands don't show up twice in the dev guild.
+   */
+  commands?: 'all' | 'owner' | 'public';
+};
+
+/**
+ * A single command affected by a deployment.
+ */
+export type DeployChange = {
+  /** The command name */
+  name: string;
+  /** The command type (chat input, user or message context menu) */
+  type: ApplicationCommandType;
+  /** The ID of the command on Discord, if it already existed */
+  id?: string;
+};
+
+/**
+ * Report of the changes made (or that would be made) by a deployment.
+ */
+export type DeployReport = {
+  /** Whether this was a dry run, i.e. nothing was actually changed */
+  dryRun: boolean;
+  /** The guild the commands were deployed to, or `null` for global commands */
+  guildId: string | null;
+  /** Commands that didn't exist on Discord yet */
+  created: DeployChange[];
+  /** Commands that exist on Discord but differ from the local definition */
+  updated: DeployChange[];
+  /** Commands that exist on Discord but are not defined locally */
+  deleted: DeployChange[];
+  /** Commands that are already up to date */
+  unchanged: DeployChange[];
+};
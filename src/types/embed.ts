@@ -0,0 +1,37 @@
+/**
+ * The Discord limits an embed can exceed.
+ *
+ * - `title`, `description`, `footer`, `author`: length of that text
+ * - `fields`: number of fields in an embed
+ * - `fieldName`, `fieldValue`: length of a field's name or value
+ * - `total`: combined length of all text in the embeds of a message
+ * - `embeds`: number of embeds in a message
+ */
+export type EmbedLimit =
+  | 'title'
+  | 'description'
+  | 'fields'
+  | 'fieldName'
+  | 'fieldValue'
+  | 'footer'
+  | 'author'
+  | 'total'
+  | 'embeds';
+
+/**
+ * A single exceeded embed limit.
+ */
+export type EmbedLimitViolation = {
+  /** The limit that was exceeded */
+  limit: EmbedLimit;
+  /** The maximum allowed by Discord */
+  max: number;
+  /** The actual length or count */
+  actual: number;
+  /** Index of the embed, undefined for limits of the whole message */
+  embed?: number;
+  /** Index of the field, for `fieldName` and `fieldValue` */
+  field?: number;
+  /** Human readable description, e.g. "Embed 1: title is 300 characters long (max 256)" */
+  message: string;
+};
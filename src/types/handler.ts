@@ -0,0 +1,20 @@
+import type { CommandManager } from '../classes/CommandManager.class.js';
+import type { ComponentManager } from '../classes/ComponentManager.class.js';
+import type { ModalManager } from '../classes/ModalManager.class.js';
+import type { PaginatorManager } from '../classes/PaginatorManager.class.js';
+
+/**
+ * Managers used by the default interaction dispatcher of DiscordHandler.
+ *
+ * Interactions for which no manager is given are ignored.
+ */
+export type InteractionManagers = {
+  /** Handles chat input commands, autocomplete and context menu commands */
+  commandManager?: CommandManager;
+  /** Handles modal submissions */
+  modalManager?: ModalManager;
+  /** Handles buttons and select menus */
+  componentManager?: ComponentManager;
+  /** Handles the buttons of persistent paginators */
+  paginatorManager?: PaginatorManager;
+};
@@ -0,0 +1,35 @@
+import {
+  ActionRowBuilder,
+  ContainerBuilder,
+  FileBuilder,
+  MediaGalleryBuilder,
+  SectionBuilder,
+  SeparatorBuilder,
+  TextDisplayBuilder,
+} from 'discord.js';
+
+/**
+ * Components that can be placed inside a container.
+ */
+export type ContainerChild =
+  | ActionRowBuilder<any>
+  | SectionBuilder
+  | TextDisplayBuilder
+  | MediaGalleryBuilder
+  | SeparatorBuilder
+  | FileBuilder;
+
+/**
+ * A top-level component of a message: an action row, or one of the
+ * Components V2 layout components.
+ *
+ * Messages with layout components can't have content or embeds.
+ */
+export type MessageLayoutComponent = ContainerBuilder | ContainerChild;
+
+/**
+ * An image or video in a media gallery, either a URL or a URL with details.
+ * Use `attachment://<name>` to show an attached file.
+ */
+export type MediaGalleryItem =
+  string | { url: string; description?: string; spoiler?: boolean };
@@ -0,0 +1,21 @@
+/**
+ * Options for loading commands from a directory.
+ */
+export type LoaderOptions = {
+  /**
+   * File extensions of the modules to import.
+   * Defaults to `.js`, `.mjs` and `.cjs`.
+   * Declaration files (`.d.ts`) are always skipped.
+   */
+  extensions?: string[];
+  /**
+   * Whether to import `.ts` and `.mts` files as well, for bots that run
+   * their TypeScript sources directly (e.g. with tsx). Defaults to `false`.
+   */
+  typescript?: boolean;
+  /**
+   * Whether to watch the directory and re-import changed modules.
+   * Defaults to `true` when `process.env.ENV === 'dev'`.
+   */
+  watch?: boolean;
+};
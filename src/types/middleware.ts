@@ -0,0 +1,43 @@
+import { ChatInputCommandInteraction, Client } from 'discord.js';
+
+import type { Command } from '../classes/Command.class.js';
+import type { SubcommandGroup } from '../classes/SubcommandGroup.class.js';
+
+/**
+ * Context passed to every command middleware.
+ */
+export type CommandContext = {
+  /** The interaction that invoked the command */
+  interaction: ChatInputCommandInteraction;
+  /** The Discord client instance */
+  client: Client;
+  /** The top-level command that was invoked (a Command or SubcommandGroup) */
+  command: Command | SubcommandGroup;
+  /** The subcommand that was invoked, when `command` is a SubcommandGroup */
+  subcommand?: Command;
+  /** Free-form storage to share data between middleware */
+  state: Record<string, unknown>;
+};
+
+/**
+ * Middleware that runs around command execution.
+ *
+ * Call `next()` to continue to the next middleware and eventually the command
+ * itself. Errors thrown by the command propagate out of `next()`, so they can
+ * be observed with a try/catch.
+ *
+ * To short-circuit, return a message without calling `next()`. The message
+ * is sent to the user as an ephemeral reply.
+ *
+ * @example
+ * ```typescript
+ * const maintenance: CommandMiddleware = async (ctx, next) => {
+ *   if (maintenanceMode) return 'The bot is under maintenance, try again later.';
+ *   await next();
+ * };
+ * ```
+ */
+export type CommandMiddleware = (
+  ctx: CommandContext,
+  next: () => Promise<void>,
+) => Promise<string | void> | string | void;
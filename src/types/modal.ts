@@ -1,33 +1,54 @@
-import { TextInputStyle, ModalSubmitInteraction } from 'discord.js';
+import {
+  ModalSubmitFields,
+  ModalSubmitInteraction,
+  TextInputStyle,
+} from 'discord.js';
+
+import { AllowedChannelTypeChannelOption } from './channel.js';
 
 /**
- * Represents a single input field within a Discord modal.
+ * Properties shared by all modal components that the user fills in.
+ * Each of them is shown with a label above it.
  */
-export type ModalField = {
+type BaseModalField = {
   /**
    * The label text shown above the input field.
    */
   name: string;
   /**
-   * The type of input to display.
-   * Use {@link TextInputStyle.Short} for a single-line field
-   * or {@link TextInputStyle.Paragraph} for a multi-line field.
+   * Optional description shown below the label.
    */
-  style: TextInputStyle;
+  description?: string;
   /**
    * Unique identifier for this field within the modal.
-   * Used to retrieve the value in the `onSubmit` handler.
+   * Used as key of the value passed to the `onSubmit` handler.
    */
   customId: string;
-  /**
-   * Optional placeholder text shown when the field is empty.
-   */
-  placeholder?: string;
   /**
    * Whether this field is required to be filled out.
    * Defaults to `true`.
    */
   required?: boolean;
+};
+
+/**
+ * A text input within a Discord modal.
+ */
+export type TextInputModalField = BaseModalField & {
+  /**
+   * The kind of component. Defaults to `'textInput'`.
+   */
+  component?: 'textInput';
+  /**
+   * The type of input to display.
+   * Use {@link TextInputStyle.Short} for a single-line field
+   * or {@link TextInputStyle.Paragraph} for a multi-line field.
+   */
+  style: TextInputStyle;
+  /**
+   * Optional placeholder text shown when the field is empty.
+   */
+  placeholder?: string;
   /**
    * Minimum number of characters the input must contain.
    */
@@ -40,12 +61,203 @@ export type ModalField = {
    * Pre-filled value shown in the input field when the modal opens.
    */
   value?: string;
+  /**
+   * The type the submitted value is parsed as. Defaults to `'string'`.
+   * Submissions that can't be parsed are rejected with an error message.
+   */
+  type?: ModalFieldType;
+  /**
+   * Regular expression the submitted value must match.
+   */
+  pattern?: RegExp;
+  /**
+   * Custom validation of the submitted value.
+   *
+   * @returns Error message if the value is invalid, null otherwise
+   */
+  validate?: (value: string) => string | null;
+  /**
+   * Custom parser for the submitted value, used instead of `type`.
+   * Throw an error to reject the value, its message is shown to the user.
+   */
+  parse?: (value: string) => unknown;
+};
+
+/**
+ * An option of a string select menu within a modal.
+ */
+export type ModalSelectOption<V extends string = string> = {
+  /** The text shown to the user */
+  label: string;
+  /** The value passed to the `onSubmit` handler */
+  value: V;
+  /** Optional description shown below the label */
+  description?: string;
+  /** Optional emoji shown before the label */
+  emoji?: string;
+  /** Whether the option is selected when the modal opens */
+  default?: boolean;
+};
+
+/** Properties shared by all select menus within a modal */
+type BaseSelectModalField = BaseModalField & {
+  /**
+   * Optional placeholder text shown when nothing is selected.
+   */
+  placeholder?: string;
+  /**
+   * Minimum number of values that must be selected.
+   */
+  minValues?: number;
+  /**
+   * Maximum number of values that can be selected.
+   */
+  maxValues?: number;
+};
+
+/**
+ * A string select menu within a modal.
+ */
+export type StringSelectModalField = BaseSelectModalField & {
+  component: 'stringSelect';
+  /**
+   * The options to choose from.
+   */
+  options: readonly ModalSelectOption[];
+};
+
+/**
+ * A user select menu within a modal.
+ */
+export type UserSelectModalField = BaseSelectModalField & {
+  component: 'userSelect';
+  /**
+   * IDs of the users selected when the modal opens.
+   */
+  defaultValues?: readonly string[];
+};
+
+/**
+ * A role select menu within a modal.
+ */
+export type RoleSelectModalField = BaseSelectModalField & {
+  component: 'roleSelect';
+  /**
+   * IDs of the roles selected when the modal opens.
+   */
+  defaultValues?: readonly string[];
+};
+
+/**
+ * A channel select menu within a modal.
+ */
+export type ChannelSelectModalField = BaseSelectModalField & {
+  component: 'channelSelect';
+  /**
+   * Only allow channels of these types. Defaults to all types.
+   */
+  channelTypes?: readonly AllowedChannelTypeChannelOption[];
+  /**
+   * IDs of the channels selected when the modal opens.
+   */
+  defaultValues?: readonly string[];
+};
+
+/**
+ * Static (markdown) text within a modal. It has no value.
+ */
+export type TextDisplayModalField = {
+  component: 'textDisplay';
+  /**
+   * The text to display, supports markdown.
+   */
+  content: string;
+};
+
+/**
+ * Represents a single component within a Discord modal.
+ *
+ * Text inputs are the default; other components are selected with `component`.
+ */
+export type ModalField =
+  | TextInputModalField
+  | StringSelectModalField
+  | UserSelectModalField
+  | RoleSelectModalField
+  | ChannelSelectModalField
+  | TextDisplayModalField;
+
+/**
+ * The types a modal field value can be parsed as.
+ */
+export type ModalFieldType = 'string' | 'integer' | 'number' | 'url' | 'date';
+
+/** The parsed value for each field type */
+type ModalFieldTypeMap = {
+  string: string;
+  integer: number;
+  number: number;
+  url: URL;
+  date: Date;
+};
+
+/** The users selected in a user select menu */
+type SelectedUsers = NonNullable<
+  ReturnType<ModalSubmitFields['getSelectedUsers']>
+>;
+/** The roles selected in a role select menu */
+type SelectedRoles = NonNullable<
+  ReturnType<ModalSubmitFields['getSelectedRoles']>
+>;
+/** The channels selected in a channel select menu */
+type SelectedChannels = NonNullable<
+  ReturnType<ModalSubmitFields['getSelectedChannels']>
+>;
+
+/** The parsed value of a field, ignoring whether it's required */
+type BaseModalFieldValue<F extends ModalField> = F extends {
+  component: 'stringSelect';
+  options: readonly ModalSelectOption<infer V>[];
+}
+  ? V[]
+  : F extends { component: 'userSelect' }
+    ? SelectedUsers
+    : F extends { component: 'roleSelect' }
+      ? SelectedRoles
+      : F extends { component: 'channelSelect' }
+        ? SelectedChannels
+        : F extends { parse: (value: string) => infer T }
+          ? T
+          : F extends { type: infer K extends ModalFieldType }
+            ? ModalFieldTypeMap[K]
+            : string;
+
+/**
+ * The parsed value of a field: `null` when the field is optional and left empty.
+ *
+ * String selects give the selected values, user, role and channel selects
+ * a collection of the selected entities.
+ */
+export type ModalFieldValue<F extends ModalField> = F extends {
+  required: false;
+}
+  ? BaseModalFieldValue<F> | null
+  : BaseModalFieldValue<F>;
+
+/**
+ * The parsed, typed values of a modal's fields, keyed by field custom ID.
+ * Text displays have no value and are left out.
+ */
+export type ModalValues<F extends readonly ModalField[]> = {
+  [
+    K in F[number] as K extends { customId: infer C extends string } ? C : never
+  ]: ModalFieldValue<K>;
 };
 
 /**
  * Represents a Discord modal dialog configuration.
  */
-export type Modal = {
+export type Modal<F extends readonly ModalField[] = ModalField[]> = {
   /**
    * The custom ID of the modal, used to match submissions.
    *
@@ -64,20 +276,107 @@ export type Modal = {
    */
   ephemeral: boolean;
 
+  /**
+   * How long the modal stays registered, in milliseconds.
+   *
+   * Defaults to the `ttl` of the ModalManager for ephemeral modals, while
+   * other modals don't expire unless this is set.
+   */
+  ttl?: number;
+
   /**
    * The title displayed at the top of the modal window.
    */
   title: string;
 
   /**
-   * The input fields displayed within the modal.
+   * The components displayed within the modal, in order.
+   */
+  fields: F;
+
+  /**
+   * Handler function called when the modal is submitted and all fields are valid.
+   * Provides the `ModalSubmitInteraction` to reply to the user and
+   * the parsed field values.
+   */
+  onSubmit: (
+    interaction: ModalSubmitInteraction,
+    values: ModalValues<F>,
+  ) => Promise<any>;
+
+  /**
+   * Handler function called when a submission has invalid fields, after the
+   * user got an ephemeral reply listing the errors.
+   */
+  onInvalid?: (
+    interaction: ModalSubmitInteraction,
+    errors: string[],
+  ) => Promise<any>;
+};
+
+/**
+ * Why a modal was removed from the registry without being submitted.
+ *
+ * - `expired`: its TTL passed
+ * - `evicted`: the registry was full and it was the least recently used ephemeral modal
+ */
+export type ModalExpireReason = 'expired' | 'evicted';
+
+/**
+ * Options for the ModalManager.
+ */
+export type ModalManagerOptions = {
+  /**
+   * Default time ephemeral modals stay registered, in milliseconds.
+   * Defaults to 15 minutes, `0` disables it.
+   */
+  ttl?: number;
+  /**
+   * How often expired modals are removed, in milliseconds.
+   * Defaults to 1 minute, `0` disables the sweeper. Expired modals are also
+   * never returned by `get`, even before they're swept.
+   */
+  sweepInterval?: number;
+  /**
+   * Maximum number of registered modals. When exceeded, the least recently
+   * used ephemeral modal is evicted; other modals are never evicted.
+   * Defaults to 1000.
+   */
+  maxSize?: number;
+  /**
+   * Called when a modal is removed because it expired or was evicted.
    */
-  fields: ModalField[];
+  onExpire?: (id: string, modal: Modal<any>, reason: ModalExpireReason) => any;
+};
 
+/**
+ * A modal shown with `ModalManager.prompt`.
+ *
+ * The modal is always registered as ephemeral, and its submission is returned
+ * by `prompt` instead of being passed to an `onSubmit` handler.
+ */
+export type ModalPromptDefinition<
+  F extends readonly ModalField[] = ModalField[],
+> = Omit<Modal<F>, 'ephemeral' | 'ttl' | 'onSubmit' | 'onInvalid'>;
+
+/**
+ * Options for `ModalManager.prompt`.
+ */
+export type ModalPromptOptions = {
   /**
-   * Handler function called when the modal is submitted.
-   * Provides the `ModalSubmitInteraction` to access input values
-   * and reply to the user.
+   * How long to wait for the user to submit the modal, in milliseconds.
+   * Defaults to 5 minutes.
    */
-  onSubmit: (interaction: ModalSubmitInteraction) => Promise<any>;
+  timeout?: number;
 };
+
+/**
+ * The result of a modal submitted through `ModalManager.prompt`.
+ */
+export type ModalPromptResult<F extends readonly ModalField[] = ModalField[]> =
+  {
+    /** The parsed values, keyed by field custom ID */
+    values: ModalValues<F>;
+    /** The submit interaction, which still has to be replied to */
+    interaction: ModalSubmitInteraction;
+  };
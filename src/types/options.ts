@@ -0,0 +1,150 @@
+import { Attachment, CommandInteractionOption, User } from 'discord.js';
+
+import { AllowedChannelTypeChannelOption } from './channel.js';
+
+/**
+ * A predefined choice for a string, integer or number option.
+ */
+export type OptionChoice<T extends string | number> = {
+  /** The name shown to the user */
+  name: string;
+  /** The value passed to the command */
+  value: T;
+};
+
+type BaseOptionDefinition = {
+  /** A brief description of the option */
+  description: string;
+  /**
+   * Whether the option must be filled in. Defaults to `false`.
+   * Options with a `default` are never required.
+   */
+  required?: boolean;
+};
+
+export type StringOptionDefinition = BaseOptionDefinition & {
+  type: 'string';
+  /** Only allow these values */
+  choices?: readonly OptionChoice<string>[];
+  /** Minimum length of the input */
+  minLength?: number;
+  /** Maximum length of the input */
+  maxLength?: number;
+  /** Whether the command's `autocomplete` hook suggests values */
+  autocomplete?: boolean;
+  /** Value used when the user doesn't fill in the option */
+  default?: string;
+};
+
+export type IntegerOptionDefinition = BaseOptionDefinition & {
+  type: 'integer';
+  /** Only allow these values */
+  choices?: readonly OptionChoice<number>[];
+  /** Minimum value (inclusive) */
+  min?: number;
+  /** Maximum value (inclusive) */
+  max?: number;
+  /** Whether the command's `autocomplete` hook suggests values */
+  autocomplete?: boolean;
+  /** Value used when the user doesn't fill in the option */
+  default?: number;
+};
+
+export type NumberOptionDefinition = BaseOptionDefinition & {
+  type: 'number';
+  /** Only allow these values */
+  choices?: readonly OptionChoice<number>[];
+  /** Minimum value (inclusive) */
+  min?: number;
+  /** Maximum value (inclusive) */
+  max?: number;
+  /** Whether the command's `autocomplete` hook suggests values */
+  autocomplete?: boolean;
+  /** Value used when the user doesn't fill in the option */
+  default?: number;
+};
+
+export type BooleanOptionDefinition = BaseOptionDefinition & {
+  type: 'boolean';
+  /** Value used when the user doesn't fill in the option */
+  default?: boolean;
+};
+
+export type UserOptionDefinition = BaseOptionDefinition & { type: 'user' };
+
+export type ChannelOptionDefinition = BaseOptionDefinition & {
+  type: 'channel';
+  /** Only allow channels of these types. Defaults to all types */
+  channelTypes?: readonly AllowedChannelTypeChannelOption[];
+};
+
+export type RoleOptionDefinition = BaseOptionDefinition & { type: 'role' };
+
+export type MentionableOptionDefinition = BaseOptionDefinition & {
+  type: 'mentionable';
+};
+
+export type AttachmentOptionDefinition = BaseOptionDefinition & {
+  type: 'attachment';
+};
+
+/**
+ * Definition of a single slash command option.
+ */
+export type OptionDefinition =
+  | StringOptionDefinition
+  | IntegerOptionDefinition
+  | NumberOptionDefinition
+  | BooleanOptionDefinition
+  | UserOptionDefinition
+  | ChannelOptionDefinition
+  | RoleOptionDefinition
+  | MentionableOptionDefinition
+  | AttachmentOptionDefinition;
+
+/**
+ * Declarative schema of a command's options, keyed by option name.
+ *
+ * Use `defineOptions` to create one, so the literal types are kept.
+ */
+export type OptionSchema = Record<string, OptionDefinition>;
+
+/** The value type of an option, ignoring whether it's required */
+type BaseOptionValue<D extends OptionDefinition> = D extends {
+  choices: readonly OptionChoice<infer V>[];
+}
+  ? V
+  : D extends { type: 'string' }
+    ? string
+    : D extends { type: 'integer' | 'number' }
+      ? number
+      : D extends { type: 'boolean' }
+        ? boolean
+        : D extends { type: 'user' }
+          ? User
+          : D extends { type: 'channel' }
+            ? NonNullable<CommandInteractionOption['channel']>
+            : D extends { type: 'role' }
+              ? NonNullable<CommandInteractionOption['role']>
+              : D extends { type: 'mentionable' }
+                ? NonNullable<
+                    CommandInteractionOption['member' | 'user' | 'role']
+                  >
+                : D extends { type: 'attachment' }
+                  ? Attachment
+                  : never;
+
+/**
+ * The parsed value of an option: `null` when the option is optional and has no default.
+ */
+export type OptionValue<D extends OptionDefinition> = D extends
+  { required: true } | { default: string | number | boolean }
+  ? BaseOptionValue<D>
+  : BaseOptionValue<D> | null;
+
+/**
+ * The parsed, typed arguments for an option schema, as passed to `Command.run`.
+ */
+export type ParsedOptions<S extends OptionSchema> = {
+  -readonly [K in keyof S]: OptionValue<S[K]>;
+};
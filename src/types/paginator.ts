@@ -0,0 +1,65 @@
+import { ActionRowBuilder, ButtonBuilder, EmbedBuilder } from 'discord.js';
+
+/**
+ * A paginator whose state lives entirely in the custom IDs of its buttons,
+ * so its messages keep working after a restart.
+ *
+ * Pages are looked up by a data key (e.g. a guild or category ID) and the
+ * page index, both encoded in the custom IDs.
+ */
+export type PersistentPaginator<T = any> = {
+  /**
+   * The base custom ID of the paginator's buttons.
+   * Must not contain a colon.
+   */
+  id: string;
+
+  /**
+   * Fetches a single page.
+   *
+   * @param key - The data key the paginator was sent with
+   * @param index - The index of the page
+   * @returns The page, or null/undefined if it doesn't exist (anymore)
+   */
+  fetchPage: (key: string, index: number) => Promise<T | null | undefined>;
+
+  /**
+   * Gets the total number of pages. Without it, the Next button is always
+   * enabled and the user is told when there are no more pages.
+   *
+   * @param key - The data key the paginator was sent with
+   */
+  count?: (key: string) => Promise<number>;
+
+  /**
+   * Builds the embeds of a page.
+   *
+   * @param item - The page
+   * @param index - The index of the page
+   * @param total - The total number of pages, null without `count`
+   * @param key - The data key the paginator was sent with
+   */
+  buildEmbed: (
+    item: T,
+    index: number,
+    total: number | null,
+    key: string,
+  ) => EmbedBuilder[];
+
+  /** Add first/last buttons. Defaults to `false` */
+  firstLast?: boolean;
+
+  /**
+   * When `true`, only the user who the paginator was sent for can change
+   * the page. Others get an ephemeral error instead.
+   */
+  ownerOnly?: boolean;
+};
+
+/**
+ * A page of a persistent paginator, ready to be sent.
+ */
+export type PersistentPage = {
+  embeds: EmbedBuilder[];
+  components: ActionRowBuilder<ButtonBuilder>[];
+};
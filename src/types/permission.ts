@@ -1,4 +1,4 @@
-import { PermissionFlagsBits } from 'discord.js';
+import { Client, PermissionFlagsBits } from 'discord.js';
 
 export type PermissionLevel =
   | 'admin'
@@ -10,3 +10,27 @@ export type PermissionLevel =
   | bigint
   | number
   | (keyof typeof PermissionFlagsBits)[];
+
+/**
+ * Configuration of who counts as a bot owner, for `'owner'` level commands.
+ */
+export type OwnerOptions = {
+  /** User IDs of the bot owners */
+  userIds?: string[];
+  /**
+   * Whether the owner of the Discord application (or all members of the
+   * owning team) should count as bot owners too. Defaults to `false`.
+   */
+  includeApplicationOwners?: boolean;
+  /**
+   * ID of a dedicated development guild. When set, owner-level commands are
+   * deployed to this guild only, instead of globally, and `deploy` only
+   * deploys them when deploying to this guild.
+   */
+  devGuildId?: string;
+};
+
+/**
+ * Checks whether a user is a bot owner.
+ */
+export type OwnerCheck = (userId: string, client: Client) => Promise<boolean>;
@@ -0,0 +1,29 @@
+import { CooldownScope } from './cooldown.js';
+
+/**
+ * Token bucket rate limit of a command.
+ *
+ * The bucket holds up to `burst` uses and refills at `uses` per `per`
+ * milliseconds, so `{ uses: 5, per: 60_000 }` allows 5 uses per minute,
+ * all at once if needed.
+ */
+export type RateLimitOptions = {
+  /** How many uses are refilled per `per` milliseconds */
+  uses: number;
+  /** The refill period in milliseconds */
+  per: number;
+  /** Maximum number of uses that can be saved up, defaults to `uses` */
+  burst?: number;
+  /** What the rate limit applies to, defaults to `'user'` */
+  scope?: CooldownScope;
+};
+
+/**
+ * Limit of how many invocations of a command can run at the same time.
+ */
+export type ConcurrencyLimitOptions = {
+  /** Maximum number of concurrent invocations */
+  limit: number;
+  /** What the limit applies to, defaults to `'global'` */
+  scope?: CooldownScope;
+};
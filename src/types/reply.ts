@@ -0,0 +1,116 @@
+import Stream from 'stream';
+
+import {
+  APIAttachment,
+  Attachment,
+  AttachmentBuilder,
+  AttachmentPayload,
+  BufferResolvable,
+  ButtonInteraction,
+  ChannelSelectMenuInteraction,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  InteractionEditReplyOptions,
+  JSONEncodable,
+  MentionableSelectMenuInteraction,
+  MessageContextMenuCommandInteraction,
+  MessageMentionOptions,
+  ModalSubmitInteraction,
+  PollData,
+  RoleSelectMenuInteraction,
+  StringSelectMenuInteraction,
+  UserContextMenuCommandInteraction,
+  UserSelectMenuInteraction,
+} from 'discord.js';
+
+import { MessageLayoutComponent } from './layout.js';
+
+/**
+ * Interactions that can be replied to with `safeReply` and edited with `safeEdit`.
+ */
+export type SafeReplyInteraction =
+  | ChatInputCommandInteraction
+  | ButtonInteraction
+  | ModalSubmitInteraction
+  | ChannelSelectMenuInteraction
+  | StringSelectMenuInteraction
+  | UserSelectMenuInteraction
+  | RoleSelectMenuInteraction
+  | MentionableSelectMenuInteraction
+  | UserContextMenuCommandInteraction
+  | MessageContextMenuCommandInteraction;
+
+/**
+ * A file to attach to a message.
+ */
+export type ReplyFile =
+  | BufferResolvable
+  | Stream
+  | JSONEncodable<APIAttachment>
+  | Attachment
+  | AttachmentBuilder
+  | AttachmentPayload;
+
+/**
+ * The message to send with `safeReply`.
+ */
+export type SafeReplyOptions = {
+  /** The message content */
+  content?: string;
+  /** Whether the reply is only visible to the user. Defaults to `false` */
+  ephemeral?: boolean;
+  /** Embeds to include */
+  embeds?: EmbedBuilder[];
+  /**
+   * Components to include. With Components V2 layout components the
+   * IsComponentsV2 flag is set and the content is shown in a text display
+   */
+  components?: MessageLayoutComponent[];
+  /** Files to attach */
+  files?: ReplyFile[];
+  /** Which mentions ping, e.g. `{ parse: [] }` to ping nobody */
+  allowedMentions?: MessageMentionOptions;
+  /** A poll to attach */
+  poll?: PollData;
+};
+
+/**
+ * The changes to make with `safeEdit`. Anything left out stays as it is.
+ */
+export type SafeEditOptions = {
+  /** The new message content */
+  content?: string;
+  /** The new embeds */
+  embeds?: EmbedBuilder[];
+  /**
+   * The new components. With Components V2 layout components the
+   * IsComponentsV2 flag is set and the content and embeds are replaced by them
+   */
+  components?: MessageLayoutComponent[];
+  /** Files to add to the message */
+  files?: ReplyFile[];
+  /** The attachments to keep, all others are removed */
+  attachments?: InteractionEditReplyOptions['attachments'];
+  /** Which mentions ping */
+  allowedMentions?: MessageMentionOptions;
+  /** A poll to attach, only possible when editing a deferred reply */
+  poll?: PollData;
+};
+
+/**
+ * Options for `autoDefer`.
+ */
+export type AutoDeferOptions = {
+  /**
+   * How long the handler may take before the interaction is deferred, in
+   * milliseconds. Defaults to 2 seconds, Discord gives up after 3
+   */
+  threshold?: number;
+  /** Whether the deferred reply is ephemeral. Defaults to `false` */
+  ephemeral?: boolean;
+  /**
+   * For components and modals submitted from a message, defer an update of
+   * that message instead of a new reply. Defaults to `false`
+   */
+  update?: boolean;
+};
@@ -0,0 +1,66 @@
+import { APIEmbedField, ColorResolvable } from 'discord.js';
+
+/**
+ * The built-in embed variants of a theme.
+ */
+export type EmbedVariant = 'default' | 'success' | 'error' | 'warning' | 'info';
+
+/**
+ * How embeds of a variant look.
+ */
+export type EmbedVariantStyle = {
+  /** The color of the embed */
+  color: ColorResolvable;
+  /** Title used when none is given, e.g. `'Error'` */
+  title?: string;
+};
+
+/**
+ * Values for the `{placeholders}` of a template.
+ */
+export type TemplateValues = Record<string, string | number>;
+
+/**
+ * A reusable embed whose texts may contain `{placeholders}`.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   variant: 'success',
+ *   title: 'Welcome {user}!',
+ *   description: 'You are member #{count} of {guild}.',
+ * }
+ * ```
+ */
+export type EmbedTemplate = {
+  /** The variant to style the embed with. Defaults to `'default'` */
+  variant?: string;
+  /** The title, falls back to the variant's title */
+  title?: string;
+  /** The description */
+  description?: string;
+  /** The fields, placeholders are filled in in names and values */
+  fields?: APIEmbedField[];
+};
+
+/**
+ * Options for an EmbedTheme.
+ */
+export type EmbedThemeOptions = {
+  /**
+   * Styles of the variants, merged with the defaults. Custom variants can be
+   * added under any name.
+   */
+  variants?: Partial<Record<EmbedVariant, Partial<EmbedVariantStyle>>> &
+    Record<string, Partial<EmbedVariantStyle>>;
+  /** Author shown on every embed */
+  author?: { name: string; iconURL?: string; url?: string };
+  /** Footer shown on every embed without its own footer */
+  footer?: { text: string; iconURL?: string };
+  /** Thumbnail URL shown on every embed */
+  thumbnail?: string;
+  /** Whether every embed gets a timestamp. Defaults to `false` */
+  timestamp?: boolean;
+  /** Named templates, see `EmbedTheme.template` */
+  templates?: Record<string, EmbedTemplate>;
+};
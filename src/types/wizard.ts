@@ -0,0 +1,118 @@
+import {
+  ButtonInteraction,
+  ButtonStyle,
+  ChatInputCommandInteraction,
+  MessageContextMenuCommandInteraction,
+  ModalSubmitInteraction,
+  StringSelectMenuInteraction,
+  UserContextMenuCommandInteraction,
+} from 'discord.js';
+
+import { ModalField, ModalPromptDefinition } from './modal.js';
+
+/**
+ * Text shown in a wizard step, either fixed or built from the state collected so far.
+ */
+export type WizardText<S> = string | ((state: S) => string);
+
+/** Properties shared by all wizard steps */
+type BaseWizardStep<S> = {
+  /** The title of the step's embed */
+  title: WizardText<S>;
+  /** The description of the step's embed */
+  description?: WizardText<S>;
+};
+
+/**
+ * A wizard step that asks the user to fill in a modal.
+ * The result is the parsed values of the modal.
+ */
+export type WizardModalStep<
+  S,
+  F extends readonly ModalField[],
+> = BaseWizardStep<S> & {
+  /** The modal to show, opened through a button */
+  modal: ModalPromptDefinition<F>;
+  /** Label of the button that opens the modal. Defaults to `'Open form'` */
+  buttonLabel?: string;
+};
+
+/**
+ * An option of a wizard select step.
+ */
+export type WizardSelectOption<V extends string = string> = {
+  /** The text shown to the user */
+  label: string;
+  /** The value stored in the state */
+  value: V;
+  /** Optional description shown below the label */
+  description?: string;
+};
+
+/**
+ * A wizard step that asks the user to pick from a select menu.
+ * The result is the array of selected values.
+ */
+export type WizardSelectStep<S, V extends string> = BaseWizardStep<S> & {
+  /** The options to choose from */
+  options: readonly WizardSelectOption<V>[];
+  /** Placeholder text shown when nothing is selected */
+  placeholder?: string;
+  /** Minimum number of values that must be selected. Defaults to 1 */
+  minValues?: number;
+  /** Maximum number of values that can be selected. Defaults to 1 */
+  maxValues?: number;
+};
+
+/**
+ * A wizard step that asks the user to click one of several buttons,
+ * e.g. to confirm. The result is the value of the clicked button.
+ */
+export type WizardButtonsStep<S, V extends string> = BaseWizardStep<S> & {
+  /** The buttons to choose from */
+  buttons: readonly { label: string; value: V; style?: ButtonStyle }[];
+};
+
+/**
+ * Options for a Wizard.
+ */
+export type WizardOptions = {
+  /**
+   * How long the user has to complete all steps, in milliseconds.
+   * Defaults to 5 minutes, after which the collected state is discarded.
+   */
+  timeout?: number;
+  /** Whether the wizard message is only visible to the user. Defaults to `true` */
+  ephemeral?: boolean;
+};
+
+/**
+ * Interactions a wizard can be started from.
+ */
+export type WizardStartInteraction =
+  | ChatInputCommandInteraction
+  | UserContextMenuCommandInteraction
+  | MessageContextMenuCommandInteraction;
+
+/**
+ * Interactions that complete a wizard step.
+ */
+export type WizardStepInteraction =
+  ButtonInteraction | StringSelectMenuInteraction | ModalSubmitInteraction;
+
+/**
+ * The outcome of a wizard.
+ *
+ * - `completed`: all steps were completed. `interaction` is the (deferred)
+ * interaction of the last step, use it to edit the wizard message.
+ * - `cancelled`: the user cancelled the wizard
+ * - `expired`: the timeout passed before all steps were completed
+ */
+export type WizardResult<S> =
+  | {
+      status: 'completed';
+      state: S;
+      interaction: WizardStepInteraction;
+    }
+  | { status: 'cancelled' }
+  | { status: 'expired' };
@@ -0,0 +1,249 @@
+import { APIEmbedField, ColorResolvable, EmbedBuilder } from 'discord.js';
+
+import {
+  EmbedTemplate,
+  EmbedThemeOptions,
+  EmbedVariantStyle,
+  TemplateValues,
+} from '../types/theme.js';
+
+import { assertEmbedLimits } from './embedLimits.js';
+import { embedBuilder } from './embeds.js';
+import { fillTemplate } from './formatting.js';
+
+/** The styles of the built-in variants */
+const DEFAULT_VARIANTS: Record<string, EmbedVariantStyle> = {
+  default: { color: '#3F48CC' },
+  success: { color: '#43B581', title: 'Success' },
+  error: { color: '#F04747', title: 'Error' },
+  warning: { color: '#FAA61A', title: 'Warning' },
+  info: { color: '#3F48CC', title: 'Info' },
+};
+
+/**
+ * Consistent branding for embeds: named variants, a default author, footer
+ * and thumbnail, and reusable templates with `{placeholders}`.
+ *
+ * A theme set on the CommandManager with `setEmbedTheme` is available as
+ * `commandManager.embeds` and as `this.embeds` inside commands.
+ *
+ * @example
+ * ```typescript
+ * commandManager.setEmbedTheme(
+ *   new EmbedTheme({
+ *     variants: { default: { color: '#FF7A00' } },
+ *     footer: { text: 'Powered by MyBot' },
+ *     templates: {
+ *       welcome: { variant: 'success', title: 'Welcome {user}!', description: 'You are member #{count}.' },
+ *     },
+ *   }),
+ * );
+ *
+ * // Inside a command
+ * await safeReply(interaction, '', true, [this.embeds.error('You are not in a voice channel.')]);
+ * await safeReply(interaction, '', false, [
+ *   this.embeds.template('welcome', { user: interaction.user.username, count: 42 }),
+ * ]);
+ * ```
+ */
+export class EmbedTheme {
+  private variants = new Map<string, EmbedVariantStyle>(
+    Object.entries(DEFAULT_VARIANTS),
+  );
+  private templates = new Map<string, EmbedTemplate>();
+
+  constructor(private options: EmbedThemeOptions = {}) {
+    // The default variant first, since new variants start out with its color
+    const { default: base, ...variants } = options.variants ?? {};
+    if (base) this.setVariant('default', base);
+
+    for (const [name, style] of Object.entries(variants)) {
+      this.setVariant(name, style);
+    }
+
+    for (const [name, template] of Object.entries(options.templates ?? {})) {
+      this.templates.set(name, template);
+    }
+  }
+
+  /**
+   * Adds a variant or changes the style of an existing one.
+   *
+   * @param name - The name of the variant
+   * @param style - The style, merged with the current style of the variant
+   * @returns The theme, for chaining
+   */
+  setVariant(name: string, style: Partial<EmbedVariantStyle>): this {
+    // New variants start out with the color of the default variant
+    const current = this.variants.get(name) ?? {
+      color: (this.variants.get('default') ?? DEFAULT_VARIANTS.default).color,
+    };
+
+    this.variants.set(name, { ...current, ...style });
+    return this;
+  }
+
+  /**
+   * Registers a reusable template.
+   *
+   * @param name - The name of the template
+   * @param template - The template
+   * @returns The theme, for chaining
+   */
+  registerTemplate(name: string, template: EmbedTemplate): this {
+    this.templates.set(name, template);
+    return this;
+  }
+
+  /**
+   * Builds an embed styled with the theme.
+   *
+   * @param variant - The variant to style the embed with, defaults to `'default'`
+   * @param title - The title, defaults to the variant's title
+   * @param description - The description of the embed, optional
+   * @param fields - The fields of the embed, optional
+   * @param footer - The footer, defaults to the theme's footer
+   * @param color - The color, defaults to the variant's color
+   * @param customize - A function to customize the embed further
+   *
+   * @returns An EmbedBuilder instance with the theme applied
+   * @throws {Error} If the variant doesn't exist or there's no title
+   * @throws {EmbedLimitError} If the embed, including the theme's author and footer, exceeds Discord's limits
+   */
+  build({
+    variant = 'default',
+    title,
+    description,
+    fields,
+    footer,
+    color,
+    customize = (e) => e,
+  }: {
+    variant?: string;
+    title?: string;
+    description?: string;
+    fields?: APIEmbedField[];
+    footer?: string;
+    color?: ColorResolvable;
+    customize?: (embed: EmbedBuilder) => EmbedBuilder;
+  }): EmbedBuilder {
+    const style = this.variants.get(variant);
+
+    if (!style) {
+      throw new Error(`Unknown embed variant: ${variant}`);
+    }
+
+    const embedTitle = title ?? style.title;
+
+    if (!embedTitle) {
+      throw new Error(`No title given for a ${variant} embed`);
+    }
+
+    const embed = embedBuilder({
+      title: embedTitle,
+      description,
+      fields,
+      timestamp: this.options.timestamp ?? false,
+      color: color ?? style.color,
+      customize: (embed) => {
+        const { author, thumbnail } = this.options;
+        const themeFooter = this.options.footer;
+
+        if (author) embed.setAuthor(author);
+        if (thumbnail) embed.setThumbnail(thumbnail);
+        if (footer) {
+          embed.setFooter({ text: footer });
+        } else if (themeFooter) {
+          embed.setFooter(themeFooter);
+        }
+
+        return customize(embed);
+      },
+    });
+
+    // The theme's author and footer count towards the total as well
+    assertEmbedLimits([embed]);
+
+    return embed;
+  }
+
+  /**
+   * Builds a success embed.
+   *
+   * @param description - The message
+   * @param title - The title, defaults to the success variant's title
+   */
+  success(description: string, title?: string): EmbedBuilder {
+    return this.build({ variant: 'success', title, description });
+  }
+
+  /**
+   * Builds an error embed.
+   *
+   * @param description - The message
+   * @param title - The title, defaults to the error variant's title
+   */
+  error(description: string, title?: string): EmbedBuilder {
+    return this.build({ variant: 'error', title, description });
+  }
+
+  /**
+   * Builds a warning embed.
+   *
+   * @param description - The message
+   * @param title - The title, defaults to the warning variant's title
+   */
+  warning(description: string, title?: string): EmbedBuilder {
+    return this.build({ variant: 'warning', title, description });
+  }
+
+  /**
+   * Builds an info embed.
+   *
+   * @param description - The message
+   * @param title - The title, defaults to the info variant's title
+   */
+  info(description: string, title?: string): EmbedBuilder {
+    return this.build({ variant: 'info', title, description });
+  }
+
+  /**
+   * Builds an embed from a registered template.
+   *
+   * @param name - The name of the template
+   * @param values - The values of the template's `{placeholders}`
+   * @returns An EmbedBuilder instance with the placeholders filled in
+   * @throws {Error} If the template doesn't exist
+   */
+  template(name: string, values: TemplateValues = {}): EmbedBuilder {
+    const template = this.templates.get(name);
+
+    if (!template) {
+      throw new Error(`Embed template not found: ${name}`);
+    }
+
+    const fill = (text?: string) =>
+      text === undefined ? undefined : fillTemplate(text, values);
+
+    return this.build({
+      variant: template.variant,
+      title: fill(template.title),
+      description: fill(template.description),
+      fields: template.fields?.map((field) => ({
+        ...field,
+        name: fillTemplate(field.name, values),
+        value: fillTemplate(field.value, values),
+      })),
+    });
+  }
+
+  /**
+   * Checks if a template is registered.
+   *
+   * @param name - The name of the template
+   * @returns true if the template exists
+   */
+  hasTemplate(name: string): boolean {
+    return this.templates.has(name);
+  }
+}
@@ -0,0 +1,127 @@
+/* eslint-disable @typescript-eslint/require-await */
+import path from 'path';
+import fs from 'fs';
+
+import { CooldownStore } from '../types/cooldown.js';
+import { ILogger } from '../types/logger.js';
+
+/**
+ * Keeps cooldowns in a JSON file, so they survive restarts.
+ *
+ * The file is read once when the store is created and rewritten on every
+ * change. Meant for single-process bots, use a database-backed store
+ * (e.g. `PrismaCooldownStore`) when several processes share cooldowns.
+ *
+ * @example
+ * ```typescript
+ * commandManager.setCooldownStore(new FileCooldownStore('./data/cooldowns.json'));
+ * ```
+ */
+export class FileCooldownStore implements CooldownStore {
+  private filePath: string;
+  private cooldowns: Map<string, number>;
+  /** The chain of writes, so only one runs at a time */
+  private writes: Promise<void> = Promise.resolve();
+  /** Whether a write is waiting in the chain and will pick up new changes */
+  private writeQueued = false;
+
+  /**
+   * Creates a new FileCooldownStore.
+   *
+   * If the file can't be read or isn't valid JSON, the error is logged and
+   * the store starts out empty.
+   *
+   * @param filePath - Path of the JSON file, relative paths resolve from the working directory
+   * @param logger - Logger for errors while reading and writing the file
+   */
+  constructor(
+    filePath: string = './data/cooldowns.json',
+    private logger?: ILogger,
+  ) {
+    this.filePath = path.isAbsolute(filePath)
+      ? filePath
+      : path.resolve(process.cwd(), filePath);
+
+    this.cooldowns = new Map();
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const data = JSON.parse(
+          fs.readFileSync(this.filePath, 'utf8'),
+        ) as Record<string, number>;
+        this.cooldowns = new Map(Object.entries(data));
+      }
+    } catch (err: any) {
+      this.logger?.log(
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        `Failed to read ${this.filePath}, starting without cooldowns: ${err.message ?? err}`,
+        'error',
+        'COOLDOWN',
+        true,
+      );
+    }
+  }
+
+  async get(key: string): Promise<number | null> {
+    const expiresAt = this.cooldowns.get(key);
+
+    if (expiresAt === undefined || expiresAt <= Date.now()) return null;
+    return expiresAt;
+  }
+
+  async set(key: string, expiresAt: number): Promise<void> {
+    this.cooldowns.set(key, expiresAt);
+    await this.save();
+  }
+
+  async delete(key: string): Promise<void> {
+    if (this.cooldowns.delete(key)) await this.save();
+  }
+
+  /**
+   * Queues a write of the cooldowns to the file.
+   *
+   * Writes run one after another, and changes made while a write is waiting
+   * are included in it instead of queueing another one.
+   */
+  private save(): Promise<void> {
+    if (this.writeQueued) return this.writes;
+
+    this.writeQueued = true;
+    this.writes = this.writes.then(() => {
+      this.writeQueued = false;
+      return this.write();
+    });
+
+    return this.writes;
+  }
+
+  /**
+   * Writes all unexpired cooldowns to a temporary file and moves it over
+   * the real one, so a crash mid-write can't leave a truncated file behind.
+   */
+  private async write(): Promise<void> {
+    const now = Date.now();
+    for (const [key, expiry] of this.cooldowns) {
+      if (expiry <= now) {
+        this.cooldowns.delete(key);
+      }
+    }
+
+    const data = JSON.stringify(Object.fromEntries(this.cooldowns));
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, data, 'utf8');
+      await fs.promises.rename(tempPath, this.filePath);
+    } catch (err: any) {
+      this.logger?.log(
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        `Failed to write ${this.filePath}: ${err.message ?? err}`,
+        'error',
+        'COOLDOWN',
+        true,
+      );
+    }
+  }
+}
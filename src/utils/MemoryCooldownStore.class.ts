@@ -0,0 +1,39 @@
+/* eslint-disable @typescript-eslint/require-await */
+import { CooldownStore } from '../types/cooldown.js';
+
+/**
+ * Keeps cooldowns in memory. Cooldowns are lost when the bot restarts.
+ *
+ * This is the default store.
+ */
+export class MemoryCooldownStore implements CooldownStore {
+  private cooldowns = new Map<string, number>();
+
+  async get(key: string): Promise<number | null> {
+    const expiresAt = this.cooldowns.get(key);
+
+    if (expiresAt === undefined) return null;
+    if (expiresAt <= Date.now()) {
+      this.cooldowns.delete(key);
+      return null;
+    }
+
+    return expiresAt;
+  }
+
+  async set(key: string, expiresAt: number): Promise<void> {
+    // Clean up expired entries
+    const now = Date.now();
+    for (const [k, expiry] of this.cooldowns) {
+      if (expiry <= now) {
+        this.cooldowns.delete(k);
+      }
+    }
+
+    this.cooldowns.set(key, expiresAt);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cooldowns.delete(key);
+  }
+}
@@ -1,15 +1,33 @@
 import {
   ChatInputCommandInteraction,
   ButtonInteraction,
-  ComponentType,
+  AnySelectMenuInteraction,
+  ActionRowBuilder,
+  ButtonBuilder,
+  EmbedBuilder,
+  MessageFlags,
+  StringSelectMenuBuilder,
+  StringSelectMenuInteraction,
+  ModalBuilder,
+  ModalMessageModalSubmitInteraction,
+  LabelBuilder,
+  TextInputBuilder,
+  TextInputStyle,
 } from 'discord.js';
 
-import { InteractionError } from '../classes/InteractionError.class.js';
+import {
+  PaginationButtonLocation,
+  PaginationNavigation,
+} from '../types/button.js';
+import { MessageLayoutComponent } from '../types/layout.js';
+import { ILogger } from '../types/logger.js';
 
 import {
   createButton,
   createButtonsRow,
   createPaginationButtons,
+  createTextDisplay,
+  embedBuilder,
 } from './embeds.js';
 import { safeReply } from './editAndReply.js';
 import { TIMES_MILISECONDS } from './miliseconds.js';
@@ -20,140 +38,496 @@ export type PaginatedEmbedOptions<T> = {
   // Optional timeout in ms, defualts to 2 minutes
   timeout?: number;
 
-  // Handler for custom button clicks
+  // Where the pagination buttons go relative to the extra buttons, defaults to 'embrace'
+  location?: PaginationButtonLocation;
+  // Navigate with prev/next buttons or a select menu of pages, defaults to 'buttons'
+  navigation?: PaginationNavigation;
+  // Add first/last buttons to the pagination buttons, defaults to false
+  firstLast?: boolean;
+  // Add a button that opens a modal to enter a page number, defaults to false
+  goToPage?: boolean;
+  // Label of a page in the select menu, defaults to "Page <n>"
+  pageLabel?: (item: T, index: number) => string;
+  // Embed shown while a page of a data source is loading
+  loadingEmbed?: EmbedBuilder;
+  // Whether buildEmbed returns embeds or Components V2 layout components, defaults to 'embeds'
+  layout?: 'embeds' | 'components';
+
+  // Logger for errors while handling the components
+  logger?: ILogger;
+
+  // Handler for custom button clicks. With a data source, return refresh: true to fetch the pages again
   onCustomButton?: (
     action: string,
     index: number,
     items: T[],
   ) => Promise<{
     handled: boolean;
+    // Replaces the items. With a data source only its presence counts, the pages are fetched again
     newItems?: T[];
+    // With a data source, fetches the count and pages again
+    refresh?: boolean;
     stopCollector?: boolean;
   }>;
 };
 
+// Loads pages on demand instead of requiring all items up front
+export type PaginatedDataSource<T> = {
+  // Fetches a single page, resolves to null/undefined if the page doesn't exist
+  fetchPage: (index: number) => Promise<T | null | undefined>;
+  // Optional total number of pages. Without it, pages are fetched until fetchPage returns nothing
+  count?: () => Promise<number>;
+};
+
+// A page or notice as message options
+type RenderedPage = {
+  embeds?: EmbedBuilder[];
+  components: MessageLayoutComponent[];
+  flags?: MessageFlags.IsComponentsV2;
+};
+
+// Whether a page was shown, doesn't exist or failed to load (the user was already told)
+type ShowPageResult = 'shown' | 'missing' | 'failed';
+
+// Interactions that can show another page
+type PageInteraction =
+  | ButtonInteraction
+  | StringSelectMenuInteraction
+  | ModalMessageModalSubmitInteraction;
+
 export class PaginatedEmbed<T> {
   private index = 0;
+  // With a data source, the pages loaded so far (sparse)
   private items: T[];
+  // The total number of pages of the data source, null while unknown
+  private dataTotal: number | null = null;
+  private dataSource?: PaginatedDataSource<T>;
   private collector?: any;
 
   constructor(
     private interaction: ChatInputCommandInteraction,
-    items: T[],
+    items: T[] | PaginatedDataSource<T>,
+    // With a data source and unknown total, total is the number of pages known so far
     private buildEmbed: (item: T, index: number, total: number) => any[],
     private options?: PaginatedEmbedOptions<T>,
   ) {
-    this.items = items;
+    if (Array.isArray(items)) {
+      this.items = items;
+    } else {
+      this.items = [];
+      this.dataSource = items;
+    }
   }
 
-  private buildButtons() {
-    const paginationButtons = createPaginationButtons(
-      this.index,
-      this.items.length,
+  // The total number of pages, null while unknown
+  private get total() {
+    return this.dataSource ? this.dataTotal : this.items.length;
+  }
+
+  // The number of pages known so far
+  private get knownTotal() {
+    return this.total ?? this.items.length;
+  }
+
+  private buildPage() {
+    return this.buildEmbed(this.items[this.index], this.index, this.knownTotal);
+  }
+
+  // The current page with the navigation below it
+  private renderPage(): RenderedPage {
+    if (this.options?.layout === 'components') {
+      return {
+        components: [...this.buildPage(), ...this.buildButtons()],
+        flags: MessageFlags.IsComponentsV2,
+      };
+    }
+
+    return { embeds: this.buildPage(), components: this.buildButtons() };
+  }
+
+  // A notice shown instead of a page, e.g. while loading
+  private renderNotice(
+    title: string,
+    embed?: EmbedBuilder,
+    components: ActionRowBuilder<any>[] = [],
+  ): RenderedPage {
+    if (this.options?.layout === 'components') {
+      return {
+        components: [createTextDisplay(`**${title}**`), ...components],
+        flags: MessageFlags.IsComponentsV2,
+      };
+    }
+
+    return { embeds: [embed ?? embedBuilder({ title })], components };
+  }
+
+  // Loads a page if needed, returns whether it exists
+  private async loadPage(index: number): Promise<boolean> {
+    if (index in this.items) return true;
+    if (!this.dataSource || index < 0) return false;
+    if (this.total !== null && index >= this.total) return false;
+
+    const page = await this.dataSource.fetchPage(index);
+
+    if (page === null || page === undefined) {
+      // The page right after the last loaded one is missing, so that's the end
+      if (this.total === null && index === this.items.length) {
+        this.dataTotal = index;
+      }
+      return false;
+    }
+
+    this.items[index] = page;
+    return true;
+  }
+
+  // Copies of the components with everything disabled, shown while loading
+  private disableComponents(rows: ActionRowBuilder<any>[]) {
+    return rows.map((row) =>
+      new ActionRowBuilder<any>().addComponents(
+        row.components.map((component) =>
+          component instanceof ButtonBuilder
+            ? ButtonBuilder.from(component.toJSON()).setDisabled(true)
+            : StringSelectMenuBuilder.from(
+                (component as StringSelectMenuBuilder).toJSON(),
+              ).setDisabled(true),
+        ),
+      ),
     );
-    const extraButtons = this.options?.extraButtons ?? [];
+  }
 
-    return [
-      createButtonsRow(extraButtons, {
-        buttons: paginationButtons,
-        location: 'embrace',
-      }),
-    ];
+  // Shows a page, with a loading state while it's fetched from the data source
+  private async showPage(
+    interaction: PageInteraction,
+    index: number,
+  ): Promise<ShowPageResult> {
+    if (index in this.items) {
+      this.index = index;
+      await interaction.update(this.renderPage());
+      return 'shown';
+    }
+
+    await interaction.update(
+      this.renderNotice(
+        'Loading...',
+        this.options?.loadingEmbed,
+        this.disableComponents(this.buildButtons()),
+      ),
+    );
+
+    let result: ShowPageResult;
+    try {
+      result = (await this.loadPage(index)) ? 'shown' : 'missing';
+    } catch {
+      result = 'failed';
+      await safeReply(interaction, 'Failed to load this page.', true);
+    }
+
+    if (result === 'shown') this.index = index;
+
+    await interaction.editReply(this.renderPage());
+    return result;
   }
 
-  async start() {
-    await safeReply(
-      this.interaction,
-      '',
-      false,
-      this.buildEmbed(this.items[this.index], this.index, this.items.length),
-      this.buildButtons(),
+  private buildButtons() {
+    const extraButtons = [...(this.options?.extraButtons ?? [])];
+
+    if (this.options?.goToPage) {
+      extraButtons.push(createButton({ type: 'goto' }));
+    }
+
+    if (this.options?.navigation === 'select') {
+      return [
+        this.buildPageSelect(),
+        ...(extraButtons.length > 0 ? [createButtonsRow(extraButtons)] : []),
+      ];
+    }
+
+    const pagination = {
+      buttons: createPaginationButtons(
+        this.index,
+        this.total ?? Infinity,
+        this.options?.firstLast,
+      ),
+      location: this.options?.location ?? 'embrace',
+    };
+
+    // There's no last page to jump to while the total is unknown
+    if (this.total === null && this.options?.firstLast) {
+      pagination.buttons[pagination.buttons.length - 1].setDisabled(true);
+    }
+
+    // Discord allows at most 5 buttons per row
+    if (pagination.buttons.length + extraButtons.length > 5) {
+      return [createButtonsRow([], pagination), createButtonsRow(extraButtons)];
+    }
+
+    return [createButtonsRow(extraButtons, pagination)];
+  }
+
+  // Select menu of the pages around the current one, Discord allows at most 25 options
+  private buildPageSelect() {
+    // With an unknown total, the page after the last loaded one can be selected too
+    const total = this.total ?? this.items.length + 1;
+    const start = Math.max(0, Math.min(this.index - 12, total - 25));
+    const options = [];
+
+    for (let index = start; index < Math.min(total, start + 25); index++) {
+      const label =
+        index in this.items
+          ? (this.options?.pageLabel?.(this.items[index], index) ??
+            `Page ${index + 1}`)
+          : `Page ${index + 1}`;
+
+      options.push({
+        label: label.slice(0, 100),
+        value: `${index}`,
+        default: index === this.index,
+      });
+    }
+
+    return new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+      new StringSelectMenuBuilder()
+        .setCustomId('page')
+        .setPlaceholder(
+          this.total === null
+            ? `Page ${this.index + 1}`
+            : `Page ${this.index + 1} of ${this.total}`,
+        )
+        .addOptions(options),
     );
+  }
 
-    const msg = await this.interaction.fetchReply();
-    this.collector = msg.createMessageComponentCollector({
-      componentType: ComponentType.Button,
-      time: this.options?.timeout ?? TIMES_MILISECONDS.MINUTE * 2,
-    });
+  // Asks for a page number with a modal and shows that page
+  private async goToPage(btnInteraction: ButtonInteraction) {
+    const customId = `goto:${btnInteraction.id}`;
+    const total = this.total;
 
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
-    this.collector.on('collect', async (btnInteraction: ButtonInteraction) => {
-      if (btnInteraction.user.id !== this.interaction.user.id) {
-        return await safeReply(
-          btnInteraction,
-          'You cannot use this button.',
-          true,
-        );
-      }
+    await btnInteraction.showModal(
+      new ModalBuilder()
+        .setCustomId(customId)
+        .setTitle('Go to page')
+        .addLabelComponents(
+          new LabelBuilder()
+            .setLabel(total === null ? 'Page' : `Page (1-${total})`)
+            .setTextInputComponent(
+              new TextInputBuilder()
+                .setCustomId('page')
+                .setStyle(TextInputStyle.Short)
+                .setMaxLength(total === null ? 10 : `${total}`.length),
+            ),
+        ),
+    );
 
-      const action = btnInteraction.customId;
+    const submit = await btnInteraction
+      .awaitModalSubmit({
+        time: TIMES_MILISECONDS.MINUTE,
+        filter: (i) => i.customId === customId,
+      })
+      .catch(() => null);
 
-      // Handle custom buttons first
-      if (this.options?.onCustomButton) {
-        const result = await this.options.onCustomButton(
-          action,
-          this.index,
-          this.items,
-        );
+    // Dismissed, or the paginator stopped in the meantime
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+    if (!submit || !submit.isFromMessage() || this.collector?.ended) return;
+
+    const page = Number(submit.fields.getTextInputValue('page'));
+
+    if (
+      !Number.isInteger(page) ||
+      page < 1 ||
+      (this.total !== null && page > this.total)
+    ) {
+      await safeReply(
+        submit,
+        this.total === null
+          ? 'Please enter a valid page number.'
+          : `Please enter a page number between 1 and ${this.total}.`,
+        true,
+      );
+      return;
+    }
+
+    if ((await this.showPage(submit, page - 1)) === 'missing') {
+      await safeReply(submit, `Page ${page} doesn't exist.`, true);
+    }
+  }
+
+  // Handles a click or selection on the paginator's components
+  private async handleComponent(
+    component: ButtonInteraction | AnySelectMenuInteraction,
+  ) {
+    if (component.user.id !== this.interaction.user.id) {
+      await safeReply(component, 'You cannot use this button.', true);
+      return;
+    }
+
+    // Select menu navigation
+    if (component.isStringSelectMenu()) {
+      await this.showPage(component, Number(component.values[0]));
+      return;
+    }
+
+    if (!component.isButton()) return;
+    const btnInteraction = component;
+
+    const action = btnInteraction.customId;
 
-        if (result.handled) {
-          if (result.newItems) {
-            this.items = result.newItems;
-            this.index = Math.min(this.index, this.items.length - 1);
+    // Handle custom buttons first
+    if (this.options?.onCustomButton) {
+      const result = await this.options.onCustomButton(
+        action,
+        this.index,
+        this.items,
+      );
 
-            if (this.items.length === 0 || result.stopCollector) {
-              this.stop();
-              return;
-            }
+      if (result.handled) {
+        if ((result.refresh || result.newItems) && this.dataSource) {
+          // The pages changed, so fetch them again
+          this.items = [];
+          this.dataTotal = this.dataSource.count
+            ? await this.dataSource.count()
+            : null;
+          this.index = Math.max(
+            0,
+            Math.min(this.index, (this.total ?? Infinity) - 1),
+          );
+
+          if (this.total === 0 || result.stopCollector) {
+            this.stop();
+            return;
           }
+        } else if (result.newItems) {
+          this.items = result.newItems;
+          this.index = Math.min(this.index, this.items.length - 1);
 
-          // Don't update for confirmation dialogs
-          if (action !== 'delete') {
-            await btnInteraction.update({
-              embeds: this.buildEmbed(
-                this.items[this.index],
-                this.index,
-                this.items.length,
-              ),
-              components: this.buildButtons(),
-            });
+          if (this.items.length === 0 || result.stopCollector) {
+            this.stop();
+            return;
           }
-          return;
         }
+
+        // Don't update for confirmation dialogs
+        if (action !== 'delete') {
+          await this.showPage(btnInteraction, this.index);
+        }
+        return;
       }
+    }
 
-      // Handle pagination
-      switch (action) {
-        case 'prev':
-          this.index = Math.max(0, this.index - 1);
-          break;
-        case 'next':
-          this.index = Math.min(this.items.length - 1, this.index + 1);
-          break;
-        default:
+    // Handle pagination
+    let index: number;
+    switch (action) {
+      case 'first':
+        index = 0;
+        break;
+      case 'last':
+        // The button is disabled while the total is unknown, but an old click may still arrive
+        if (this.total === null) {
+          await btnInteraction.deferUpdate();
           return;
+        }
+        index = this.total - 1;
+        break;
+      case 'goto':
+        await this.goToPage(btnInteraction);
+        return;
+      case 'prev':
+        index = Math.max(0, this.index - 1);
+        break;
+      case 'next':
+        index = Math.min((this.total ?? Infinity) - 1, this.index + 1);
+        break;
+      default:
+        return;
+    }
+
+    await this.showPage(btnInteraction, index);
+  }
+
+  async start() {
+    if (this.dataSource) {
+      const loading = this.renderNotice(
+        'Loading...',
+        this.options?.loadingEmbed,
+      );
+      await safeReply(
+        this.interaction,
+        '',
+        false,
+        loading.embeds,
+        loading.components,
+      );
+
+      if (this.dataSource.count) {
+        this.dataTotal = await this.dataSource.count();
       }
 
-      await btnInteraction.update({
-        embeds: this.buildEmbed(
-          this.items[this.index],
-          this.index,
-          this.items.length,
-        ),
-        components: this.buildButtons(),
-      });
+      if (!(await this.loadPage(0))) {
+        await this.interaction.editReply(this.renderNotice('Nothing to show'));
+        return;
+      }
+
+      await this.interaction.editReply(this.renderPage());
+    } else {
+      const page = this.renderPage();
+      await safeReply(
+        this.interaction,
+        '',
+        false,
+        page.embeds,
+        page.components,
+      );
+    }
+
+    const msg = await this.interaction.fetchReply();
+    this.collector = msg.createMessageComponentCollector({
+      time: this.options?.timeout ?? TIMES_MILISECONDS.MINUTE * 2,
     });
 
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+    this.collector.on(
+      'collect',
+      async (component: ButtonInteraction | AnySelectMenuInteraction) => {
+        try {
+          await this.handleComponent(component);
+        } catch (err: any) {
+          this.options?.logger?.log(
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+            `An Error occurred: ${err.message ?? err}`,
+            'error',
+            'PAGINATED_EMBED',
+            true,
+          );
+
+          try {
+            await safeReply(component, 'An unexpected error occurred.', true);
+          } catch {
+            // The interaction may have expired
+          }
+        }
+      },
+    );
+
     // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
     this.collector.on('end', async () => {
+      // Layout pages are components themselves, so only remove the navigation.
+      // After the last item was removed there's no page to keep
       try {
-        await this.interaction.editReply({ components: [] });
+        const components =
+          this.options?.layout !== 'components'
+            ? []
+            : this.index in this.items
+              ? this.buildPage()
+              : this.renderNotice('Nothing to show').components;
+
+        await this.interaction.editReply({ components });
       } catch (err: any) {
-        throw new InteractionError(
+        this.options?.logger?.log(
           // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
-          `Failed to clear components: ${err.message}`,
-          this.interaction.id,
-          'failed',
+          `Failed to clear components: ${err.message ?? err}`,
+          'error',
+          'PAGINATED_EMBED',
+          true,
         );
       }
     });
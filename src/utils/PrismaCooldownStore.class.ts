@@ -0,0 +1,80 @@
+import { CooldownStore } from '../types/cooldown.js';
+
+/**
+ * The subset of a Prisma model delegate used by PrismaCooldownStore.
+ */
+export type PrismaCooldownDelegate = {
+  findUnique(args: {
+    where: { key: string };
+  }): Promise<{ expiresAt: Date } | null>;
+  upsert(args: {
+    where: { key: string };
+    create: { key: string; expiresAt: Date };
+    update: { expiresAt: Date };
+  }): Promise<unknown>;
+  deleteMany(args: {
+    where: { key?: string; expiresAt?: { lte: Date } };
+  }): Promise<unknown>;
+};
+
+/**
+ * Keeps cooldowns in a database through Prisma, so they survive restarts and
+ * can be shared between processes.
+ *
+ * Requires a model like this in your Prisma schema:
+ *
+ * ```prisma
+ * model Cooldown {
+ *   key       String   @id
+ *   expiresAt DateTime
+ * }
+ * ```
+ *
+ * @example
+ * ```typescript
+ * commandManager.setCooldownStore(new PrismaCooldownStore(prisma.cooldown));
+ * ```
+ */
+export class PrismaCooldownStore implements CooldownStore {
+  private delegate: PrismaCooldownDelegate;
+
+  /**
+   * Creates a new PrismaCooldownStore.
+   *
+   * @param delegate - The Prisma model delegate, e.g. `prisma.cooldown`
+   */
+  constructor(delegate: PrismaCooldownDelegate) {
+    this.delegate = delegate;
+  }
+
+  async get(key: string): Promise<number | null> {
+    const row = await this.delegate.findUnique({ where: { key } });
+
+    if (!row || row.expiresAt.getTime() <= Date.now()) return null;
+    return row.expiresAt.getTime();
+  }
+
+  async set(key: string, expiresAt: number): Promise<void> {
+    const date = new Date(expiresAt);
+    await this.delegate.upsert({
+      where: { key },
+      create: { key, expiresAt: date },
+      update: { expiresAt: date },
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.delegate.deleteMany({ where: { key } });
+  }
+
+  /**
+   * Removes all expired cooldowns from the database.
+   *
+   * Expired rows are ignored anyway, call this periodically to keep the table small.
+   */
+  async cleanup(): Promise<void> {
+    await this.delegate.deleteMany({
+      where: { expiresAt: { lte: new Date() } },
+    });
+  }
+}
@@ -0,0 +1,446 @@
+import {
+  ActionRowBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  MessageComponentInteraction,
+  StringSelectMenuBuilder,
+} from 'discord.js';
+
+import { InteractionError } from '../classes/InteractionError.class.js';
+import { ModalManager } from '../classes/ModalManager.class.js';
+import { ModalField, ModalValues } from '../types/modal.js';
+import {
+  WizardButtonsStep,
+  WizardModalStep,
+  WizardOptions,
+  WizardResult,
+  WizardSelectStep,
+  WizardStartInteraction,
+  WizardStepInteraction,
+  WizardText,
+} from '../types/wizard.js';
+
+import { safeEdit, safeReply } from './editAndReply.js';
+import { createButton, createButtonsRow, embedBuilder } from './embeds.js';
+import { TIMES_MILISECONDS } from './miliseconds.js';
+
+/** A step as stored by the wizard */
+type Step =
+  | { id: string; kind: 'modal'; step: WizardModalStep<any, any> }
+  | { id: string; kind: 'select'; step: WizardSelectStep<any, string> }
+  | { id: string; kind: 'buttons'; step: WizardButtonsStep<any, string> };
+
+/** The progress of a single run of the wizard */
+type Run = {
+  index: number;
+  state: Record<string, unknown>;
+  ended: boolean;
+};
+
+/**
+ * Multi-step flow in a single message, mixing modals, select menus and buttons.
+ *
+ * Steps are shown one at a time with Back and Cancel buttons. The result of
+ * each step is stored in a typed state object under the step's ID, which
+ * later steps can use to build their text. A wizard can be defined once and
+ * started for any number of users; each run has its own state, which is
+ * discarded when the timeout passes.
+ *
+ * Modal steps are shown through `ModalManager.prompt`, so modal submissions
+ * must be routed to the ModalManager's `handleSubmit`.
+ *
+ * @example
+ * ```typescript
+ * const onboarding = new Wizard(modalManager, { timeout: TIMES_MILISECONDS.MINUTE * 10 })
+ *   .modal('profile', {
+ *     title: 'Your profile',
+ *     modal: {
+ *       id: 'onboarding-profile',
+ *       title: 'Profile',
+ *       fields: [
+ *         { customId: 'name', name: 'Name', style: TextInputStyle.Short },
+ *         { customId: 'age', name: 'Age', style: TextInputStyle.Short, type: 'integer' },
+ *       ],
+ *     },
+ *   })
+ *   .select('team', {
+ *     title: (state) => `Welcome ${state.profile.name}! Pick a team`,
+ *     options: [
+ *       { label: 'Red', value: 'red' },
+ *       { label: 'Blue', value: 'blue' },
+ *     ],
+ *   })
+ *   .buttons('confirm', {
+ *     title: 'All set?',
+ *     description: (state) => `${state.profile.name}, team ${state.team[0]}`,
+ *     buttons: [{ label: 'Confirm', value: 'yes', style: ButtonStyle.Success }],
+ *   });
+ *
+ * const result = await onboarding.start(interaction);
+ * if (result.status === 'completed') {
+ *   await saveProfile(result.state.profile, result.state.team[0]);
+ *   await safeEdit(result.interaction, 'Welcome aboard!', [], []);
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export class Wizard<S extends Record<string, unknown> = {}> {
+  private steps: Step[] = [];
+  private modalManager: ModalManager;
+  private options: WizardOptions;
+
+  constructor(modalManager: ModalManager, options: WizardOptions = {}) {
+    this.modalManager = modalManager;
+    this.options = options;
+  }
+
+  /**
+   * Adds a step that asks the user to fill in a modal.
+   *
+   * @param id - Key of the step's result in the state
+   * @param step - The step configuration
+   * @returns The wizard, typed with the modal values added to the state
+   */
+  modal<const Id extends string, const F extends readonly ModalField[]>(
+    id: Id,
+    step: WizardModalStep<S, F>,
+  ): Wizard<S & Record<Id, ModalValues<F>>> {
+    this.steps.push({ id, kind: 'modal', step });
+    return this as unknown as Wizard<S & Record<Id, ModalValues<F>>>;
+  }
+
+  /**
+   * Adds a step that asks the user to pick from a select menu.
+   *
+   * @param id - Key of the step's result in the state
+   * @param step - The step configuration
+   * @returns The wizard, typed with the selected values added to the state
+   */
+  select<const Id extends string, const V extends string>(
+    id: Id,
+    step: WizardSelectStep<S, V>,
+  ): Wizard<S & Record<Id, V[]>> {
+    this.steps.push({ id, kind: 'select', step });
+    return this as unknown as Wizard<S & Record<Id, V[]>>;
+  }
+
+  /**
+   * Adds a step that asks the user to click one of several buttons.
+   *
+   * @param id - Key of the step's result in the state
+   * @param step - The step configuration
+   * @returns The wizard, typed with the clicked button's value added to the state
+   */
+  buttons<const Id extends string, const V extends string>(
+    id: Id,
+    step: WizardButtonsStep<S, V>,
+  ): Wizard<S & Record<Id, V>> {
+    this.steps.push({ id, kind: 'buttons', step });
+    return this as unknown as Wizard<S & Record<Id, V>>;
+  }
+
+  /**
+   * Resolves a text that may depend on the state.
+   */
+  private text(text: WizardText<any>, run: Run): string {
+    return typeof text === 'function' ? text(run.state) : text;
+  }
+
+  /**
+   * Builds the embed of the current step.
+   */
+  private buildEmbeds(run: Run) {
+    const { step } = this.steps[run.index];
+
+    return [
+      embedBuilder({
+        title: this.text(step.title, run),
+        description: step.description
+          ? this.text(step.description, run)
+          : undefined,
+        footer: `Step ${run.index + 1} of ${this.steps.length}`,
+      }),
+    ];
+  }
+
+  /**
+   * Builds the components of the current step, followed by the navigation row.
+   */
+  private buildComponents(run: Run) {
+    const current = this.steps[run.index];
+    const rows: ActionRowBuilder<any>[] = [];
+
+    switch (current.kind) {
+      case 'modal':
+        rows.push(
+          createButtonsRow([
+            createButton({
+              type: 'open',
+              customId: 'wizard:modal',
+              label: current.step.buttonLabel ?? 'Open form',
+              style: ButtonStyle.Primary,
+            }),
+          ]),
+        );
+        break;
+      case 'select': {
+        const { options, placeholder, minValues, maxValues } = current.step;
+        const menu = new StringSelectMenuBuilder()
+          .setCustomId('wizard:select')
+          .setMinValues(minValues ?? 1)
+          .setMaxValues(maxValues ?? 1)
+          .addOptions(
+            options.map((option) => ({
+              label: option.label,
+              value: option.value,
+              ...(option.description
+                ? { description: option.description }
+                : {}),
+            })),
+          );
+
+        if (placeholder) menu.setPlaceholder(placeholder);
+
+        rows.push(
+          new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(menu),
+        );
+        break;
+      }
+      case 'buttons':
+        rows.push(
+          createButtonsRow(
+            current.step.buttons.map((button, i) =>
+              createButton({
+                type: 'choice',
+                customId: `wizard:button:${i}`,
+                label: button.label,
+                style: button.style ?? ButtonStyle.Primary,
+              }),
+            ),
+          ),
+        );
+        break;
+    }
+
+    rows.push(
+      createButtonsRow([
+        createButton({
+          type: 'back',
+          customId: 'wizard:back',
+          label: 'Back',
+          disabled: run.index === 0,
+        }),
+        createButton({
+          type: 'cancel',
+          customId: 'wizard:cancel',
+          label: 'Cancel',
+        }),
+      ]),
+    );
+
+    return rows;
+  }
+
+  /**
+   * Shows the current step on the wizard message.
+   */
+  private async render(run: Run, interaction: WizardStepInteraction) {
+    await safeEdit(
+      interaction,
+      '',
+      this.buildEmbeds(run),
+      this.buildComponents(run),
+    );
+  }
+
+  /**
+   * Gets the result of the current step from a component interaction.
+   *
+   * @returns The result, or undefined if the interaction doesn't complete the step
+   */
+  private getResult(run: Run, interaction: MessageComponentInteraction) {
+    const current = this.steps[run.index];
+
+    if (current.kind === 'select' && interaction.isStringSelectMenu()) {
+      return interaction.values;
+    }
+
+    if (current.kind === 'buttons' && interaction.isButton()) {
+      const index = Number(interaction.customId.split(':')[2]);
+      return current.step.buttons[index]?.value;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Starts the wizard by replying to an interaction with the first step.
+   *
+   * Only the user who started the wizard can use its components.
+   *
+   * @param interaction - The interaction to reply to
+   * @returns How the wizard ended, with the collected state if it was completed
+   * @throws {Error} If the wizard has no steps
+   */
+  async start(interaction: WizardStartInteraction): Promise<WizardResult<S>> {
+    if (this.steps.length === 0) {
+      throw new Error('A wizard needs at least one step');
+    }
+
+    const timeout = this.options.timeout ?? TIMES_MILISECONDS.MINUTE * 5;
+    const expiresAt = Date.now() + timeout;
+    const run: Run = { index: 0, state: {}, ended: false };
+
+    await safeReply(
+      interaction,
+      '',
+      this.options.ephemeral ?? true,
+      this.buildEmbeds(run),
+      this.buildComponents(run),
+    );
+
+    const msg = await interaction.fetchReply();
+    const collector = msg.createMessageComponentCollector({ time: timeout });
+    let last: WizardStepInteraction | undefined;
+
+    return new Promise((resolve, reject) => {
+      const advance = async (
+        value: unknown,
+        stepInteraction: WizardStepInteraction,
+      ) => {
+        run.state[this.steps[run.index].id] = value;
+        run.index++;
+        last = stepInteraction;
+
+        if (run.index >= this.steps.length) {
+          collector.stop('completed');
+        } else {
+          await this.render(run, stepInteraction);
+        }
+      };
+
+      collector.on('collect', async (component) => {
+        try {
+          if (component.user.id !== interaction.user.id) {
+            await safeReply(component, 'You cannot use this button.', true);
+            return;
+          }
+
+          const current = this.steps[run.index];
+
+          if (component.customId === 'wizard:cancel') {
+            collector.stop('cancelled');
+            await component.update({
+              content: 'Cancelled.',
+              embeds: [],
+              components: [],
+            });
+            return;
+          }
+
+          if (component.customId === 'wizard:back' && component.isButton()) {
+            run.index = Math.max(0, run.index - 1);
+            // The step gets answered again, so its old value is dropped
+            for (const { id } of this.steps.slice(run.index)) {
+              delete run.state[id];
+            }
+            await component.deferUpdate();
+            await this.render(run, component);
+            return;
+          }
+
+          if (
+            current.kind === 'modal' &&
+            component.customId === 'wizard:modal'
+          ) {
+            await this.runModalStep(
+              run,
+              current,
+              component as ButtonInteraction,
+              expiresAt,
+              advance,
+            );
+            return;
+          }
+
+          const value = this.getResult(run, component);
+          if (value === undefined) return;
+
+          await component.deferUpdate();
+          await advance(value, component as WizardStepInteraction);
+        } catch (err) {
+          collector.stop('error');
+          reject(err);
+        }
+      });
+
+      collector.on('end', async (_collected, reason) => {
+        run.ended = true;
+
+        switch (reason) {
+          case 'completed':
+            resolve({
+              status: 'completed',
+              state: run.state as S,
+              interaction: last as WizardStepInteraction,
+            });
+            return;
+          case 'cancelled':
+            resolve({ status: 'cancelled' });
+            return;
+        }
+
+        // The state is only kept as long as the wizard runs
+        run.state = {};
+
+        try {
+          await interaction.editReply({ components: [] });
+        } catch {
+          // The message may already be gone
+        }
+
+        // On 'error' the promise was already rejected with the error
+        if (reason !== 'error') resolve({ status: 'expired' });
+      });
+    });
+  }
+
+  /**
+   * Shows the modal of a modal step and advances once it's submitted.
+   *
+   * Nothing happens if the modal isn't submitted in time (e.g. because it
+   * was dismissed) or was submitted with invalid values (the user already
+   * got the field errors), so the user can simply open it again. Any other
+   * error is rethrown and ends the wizard.
+   */
+  private async runModalStep(
+    run: Run,
+    current: Extract<Step, { kind: 'modal' }>,
+    interaction: ButtonInteraction,
+    expiresAt: number,
+    advance: (
+      value: unknown,
+      interaction: WizardStepInteraction,
+    ) => Promise<void>,
+  ) {
+    let result;
+
+    try {
+      result = await this.modalManager.prompt(interaction, current.step.modal, {
+        timeout: Math.max(0, expiresAt - Date.now()),
+      });
+    } catch (err) {
+      // ModalManager rejects with 'failed' for invalid values
+      if (err instanceof InteractionError) return;
+      throw err;
+    }
+
+    // The user may have gone back or the wizard may have ended in the meantime
+    if (run.ended || this.steps[run.index] !== current) {
+      return;
+    }
+
+    await result.interaction.deferUpdate();
+    await advance(result.values, result.interaction);
+  }
+}
@@ -0,0 +1,118 @@
+import { MessageFlags } from 'discord.js';
+
+import { AutoDeferOptions, SafeReplyInteraction } from '../types/reply.js';
+
+import { TIMES_MILISECONDS } from './miliseconds.js';
+
+/** Defers started by `autoDefer` that haven't completed yet */
+const pendingDefers = new WeakMap<SafeReplyInteraction, Promise<void>>();
+
+/** Replies started by `safeReply` that haven't completed yet, per interaction */
+const pendingReplies = new WeakMap<SafeReplyInteraction, number>();
+
+/**
+ * Marks the interaction as being replied to while the reply is sent, so
+ * `autoDefer` doesn't defer an interaction that's about to be acknowledged.
+ *
+ * @param interaction - The interaction being replied to
+ * @param reply - Sends the reply
+ * @returns The result of the reply
+ */
+export async function trackReply<T>(
+  interaction: SafeReplyInteraction,
+  reply: () => Promise<T>,
+): Promise<T> {
+  pendingReplies.set(interaction, (pendingReplies.get(interaction) ?? 0) + 1);
+
+  try {
+    return await reply();
+  } finally {
+    const pending = (pendingReplies.get(interaction) ?? 1) - 1;
+    if (pending > 0) {
+      pendingReplies.set(interaction, pending);
+    } else {
+      pendingReplies.delete(interaction);
+    }
+  }
+}
+
+/**
+ * Waits for a defer started by `autoDefer` to complete, so a reply sent at
+ * the same moment doesn't fail because the interaction was acknowledged twice.
+ *
+ * @param interaction - The interaction that may be deferred
+ */
+export async function waitForAutoDefer(
+  interaction: SafeReplyInteraction,
+): Promise<void> {
+  await pendingDefers.get(interaction);
+}
+
+/**
+ * Runs a handler and defers the interaction if the handler hasn't replied
+ * within the threshold, so slow handlers don't fail with "This interaction
+ * failed".
+ *
+ * `safeReply` and `safeEdit` work the same either way: once deferred, the
+ * reply completes the deferred response. Note that a deferred reply keeps the
+ * ephemeral setting of the defer.
+ *
+ * @param interaction - The interaction to defer
+ * @param handler - The handler that replies to the interaction
+ * @param options - The threshold, whether the deferred reply is ephemeral and whether to defer an update
+ * @returns The result of the handler
+ *
+ * @example
+ * ```typescript
+ * protected async run(interaction: ChatInputCommandInteraction) {
+ *   await autoDefer(interaction, async () => {
+ *     const stats = await fetchSlowStats();
+ *     await safeReply(interaction, { embeds: [statsEmbed(stats)] });
+ *   });
+ * }
+ * ```
+ */
+export async function autoDefer<T>(
+  interaction: SafeReplyInteraction,
+  handler: () => Promise<T>,
+  {
+    threshold = TIMES_MILISECONDS.SECOND * 2,
+    ephemeral = false,
+    update = false,
+  }: AutoDeferOptions = {},
+): Promise<T> {
+  const timer = setTimeout(() => {
+    if (
+      interaction.replied ||
+      interaction.deferred ||
+      pendingReplies.has(interaction)
+    ) {
+      return;
+    }
+
+    const defer =
+      update && 'deferUpdate' in interaction
+        ? interaction.deferUpdate()
+        : interaction.deferReply(
+            ephemeral ? { flags: MessageFlags.Ephemeral } : {},
+          );
+
+    pendingDefers.set(
+      interaction,
+      defer
+        .then(() => undefined)
+        .catch(() => {
+          // The handler replied in the meantime or the interaction expired,
+          // replying will report the latter
+        })
+        .finally(() => pendingDefers.delete(interaction)),
+    );
+  }, threshold);
+
+  try {
+    return await handler();
+  } finally {
+    clearTimeout(timer);
+    await waitForAutoDefer(interaction);
+  }
+}
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+import { Command } from '../classes/Command.class.js';
+import { SubcommandGroup } from '../classes/SubcommandGroup.class.js';
+import { ContextMenuCommand } from '../classes/ContextMenuCommand.class.js';
+import { RegistrableCommand } from '../types/command.js';
+
+/** File extensions imported by default when loading a command directory */
+export const DEFAULT_COMMAND_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+
+/**
+ * TypeScript file extensions, only importable when running through a loader
+ * like tsx or ts-node, or with Node's type stripping
+ */
+export const TYPESCRIPT_COMMAND_EXTENSIONS = ['.ts', '.mts'];
+
+/**
+ * Checks whether a file should be imported as a command module.
+ *
+ * @param file - The file name or path
+ * @param extensions - The allowed file extensions
+ * @returns true if the file has one of the extensions and isn't a declaration file
+ */
+export function isCommandModuleFile(
+  file: string,
+  extensions: string[] = DEFAULT_COMMAND_EXTENSIONS,
+): boolean {
+  if (/\.d\.[cm]?ts$/.test(file)) return false;
+  return extensions.includes(path.extname(file));
+}
+
+/**
+ * Recursively finds all command module files in a directory.
+ *
+ * @param dir - The absolute directory path to scan
+ * @param extensions - The allowed file extensions
+ * @returns The absolute paths of all matching files, sorted alphabetically
+ */
+export async function findCommandModules(
+  dir: string,
+  extensions: string[] = DEFAULT_COMMAND_EXTENSIONS,
+): Promise<string[]> {
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await findCommandModules(fullPath, extensions)));
+    } else if (entry.isFile() && isCommandModuleFile(entry.name, extensions)) {
+      files.push(fullPath);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Turns a module export into a command instance, if it is one.
+ *
+ * Accepts both command classes (which get instantiated without arguments)
+ * and already created command instances.
+ */
+function toCommand(value: unknown): RegistrableCommand | null {
+  let instance: unknown = value;
+
+  if (typeof value === 'function') {
+    const prototype: unknown = value.prototype;
+    if (
+      !(prototype instanceof Command) &&
+      !(prototype instanceof SubcommandGroup) &&
+      !(prototype instanceof ContextMenuCommand)
+    ) {
+      return null;
+    }
+    try {
+      instance = new (value as new () => unknown)();
+    } catch {
+      // Abstract base classes or classes with required constructor arguments
+      return null;
+    }
+  }
+
+  if (
+    !(instance instanceof Command) &&
+    !(instance instanceof SubcommandGroup) &&
+    !(instance instanceof ContextMenuCommand)
+  ) {
+    return null;
+  }
+
+  // Intermediate base classes don't define a name
+  if (typeof instance.name !== 'string' || !instance.name) return null;
+
+  return instance as RegistrableCommand;
+}
+
+/**
+ * Imports a module and returns all commands it exports.
+ *
+ * @param file - The absolute path of the module
+ * @param bustCache - Whether to bypass the ESM import cache, needed to re-import changed files
+ * @returns The command instances exported by the module
+ */
+export async function importCommands(
+  file: string,
+  bustCache: boolean = false,
+): Promise<RegistrableCommand[]> {
+  const url = pathToFileURL(file);
+  if (bustCache) url.searchParams.set('update', Date.now().toString());
+
+  const mod = (await import(url.href)) as Record<string, unknown>;
+  const commands: RegistrableCommand[] = [];
+  const seen = new Set<unknown>();
+
+  for (const value of Object.values(mod)) {
+    // `export default` and a named export of the same class
+    if (seen.has(value)) continue;
+    seen.add(value);
+
+    const command = toCommand(value);
+    if (command) commands.push(command);
+  }
+
+  return commands;
+}
+
+/**
+ * Removes the commands that a subcommand group already contains.
+ *
+ * Subcommand classes usually live next to their group, e.g. in
+ * `commands/<group>/<sub>.ts`, and would otherwise be registered as
+ * top-level commands as well. The same goes for nested groups.
+ *
+ * A reloaded subcommand module is skipped as well, so its changes only show
+ * up once the group and the subcommand are imported anew, e.g. after a restart.
+ *
+ * @param commands - The commands to filter
+ * @param groups - The groups whose subcommands and nested groups are skipped
+ * @returns The commands that no group contains
+ */
+export function withoutGroupMembers(
+  commands: RegistrableCommand[],
+  groups: SubcommandGroup[],
+): RegistrableCommand[] {
+  const members: (Command | SubcommandGroup)[] = groups.flatMap((group) => [
+    ...group.getSubcommands(),
+    ...group.getSubcommandGroups(),
+  ]);
+
+  return commands.filter(
+    (command) =>
+      !members.some(
+        (member) =>
+          member === command ||
+          member.constructor === command.constructor ||
+          // A reloaded module exports a new class that the group doesn't know
+          (member.constructor.name === command.constructor.name &&
+            member.name === command.name),
+      ),
+  );
+}
@@ -0,0 +1,142 @@
+import { ButtonStyle, ComponentType } from 'discord.js';
+
+import { ConfirmOptions, ConfirmResult } from '../types/confirm.js';
+import { SafeReplyInteraction } from '../types/reply.js';
+
+import { safeReply } from './editAndReply.js';
+import { createButton, createButtonsRow, embedBuilder } from './embeds.js';
+import { TIMES_MILISECONDS } from './miliseconds.js';
+
+/**
+ * Builds the confirm and cancel buttons of a confirmation dialog.
+ */
+function buildConfirmButtons(
+  confirmLabel: string,
+  cancelLabel: string,
+  danger: boolean,
+  disabled: boolean,
+) {
+  return [
+    createButtonsRow([
+      createButton({
+        type: 'confirm',
+        customId: 'confirm',
+        label: confirmLabel,
+        style: danger ? ButtonStyle.Danger : ButtonStyle.Success,
+        disabled,
+      }),
+      createButton({
+        type: 'cancel',
+        customId: 'cancel',
+        label: cancelLabel,
+        disabled,
+      }),
+    ]),
+  ];
+}
+
+/**
+ * Asks the user to confirm an action with an embed and confirm/cancel buttons.
+ *
+ * Only the user of the interaction can answer, others get an ephemeral
+ * error. Once answered or timed out, the buttons are disabled.
+ *
+ * @param interaction - The interaction to reply to
+ * @param options - The dialog's text and behaviour
+ * @returns `true` if confirmed, `false` if cancelled or `'timeout'` if not answered in time
+ * @throws {InteractionError} If the dialog couldn't be sent
+ *
+ * @example
+ * ```typescript
+ * const answer = await confirm(interaction, {
+ *   title: 'Delete reminder?',
+ *   description: 'This cannot be undone.',
+ *   confirmLabel: 'Delete',
+ *   danger: true,
+ * });
+ *
+ * if (answer === true) {
+ *   await deleteReminder(id);
+ * }
+ * ```
+ */
+export async function confirm(
+  interaction: SafeReplyInteraction,
+  options: ConfirmOptions,
+): Promise<ConfirmResult> {
+  const {
+    title,
+    description,
+    confirmLabel = 'Confirm',
+    cancelLabel = 'Cancel',
+    timeout = TIMES_MILISECONDS.MINUTE,
+    danger = false,
+    ephemeral = true,
+    logger,
+  } = options;
+
+  const msg = await safeReply(
+    interaction,
+    '',
+    ephemeral,
+    [embedBuilder({ title, description })],
+    buildConfirmButtons(confirmLabel, cancelLabel, danger, false),
+  );
+
+  const collector = msg.createMessageComponentCollector({
+    componentType: ComponentType.Button,
+    time: timeout,
+  });
+
+  return new Promise((resolve) => {
+    let result: ConfirmResult = 'timeout';
+
+    const logError = (err: any) =>
+      logger?.log(
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+        `An Error occurred: ${err.message ?? err}`,
+        'error',
+        'CONFIRM',
+        true,
+      );
+
+    collector.on('collect', async (btnInteraction) => {
+      if (btnInteraction.user.id !== interaction.user.id) {
+        try {
+          await safeReply(btnInteraction, 'You cannot use this button.', true);
+        } catch (err: any) {
+          logError(err);
+        }
+        return;
+      }
+
+      // Acknowledge the click before 'end' disables the buttons
+      try {
+        await btnInteraction.deferUpdate();
+      } catch (err: any) {
+        logError(err);
+      }
+
+      result = btnInteraction.customId === 'confirm';
+      collector.stop();
+    });
+
+    collector.on('end', async () => {
+      try {
+        await interaction.editReply({
+          message: msg,
+          components: buildConfirmButtons(
+            confirmLabel,
+            cancelLabel,
+            danger,
+            true,
+          ),
+        });
+      } catch {
+        // The message may already be gone
+      }
+
+      resolve(result);
+    });
+  });
+}
@@ -1,54 +1,106 @@
+import { BaseInteraction } from 'discord.js';
+
+import { CooldownScope, CooldownStore } from '../types/cooldown.js';
+
+import { MemoryCooldownStore } from './MemoryCooldownStore.class.js';
+
 /**
- * A tracker with the command name as key and a map as value.
- *
- * Within the value map the userId is used as the key and the timestamp (in ms)
- * when the command can be used again as the value.
- *
- * So `Map<commandName, Map<userId, canBeUsedAgainAt>>`.
+ * The store used by commands that aren't given one through
+ * `CommandManager.setCooldownStore`.
  */
-const tracker: Map<string, Map<string, number>> = new Map();
+export const defaultCooldownStore: CooldownStore = new MemoryCooldownStore();
 
 /**
- * Checks whether a user can run a given command considering its cooldown.
+ * Builds the key of the cooldown bucket for an invocation.
  *
- * If the command has no cooldown, it is always allowed.
- * If the user is on cooldown, returns how long they still need to wait.
- *
- * This function also automatically cleans up expired cooldowns.
+ * The command key should identify the (sub)command uniquely, e.g.
+ * `config logging channel`, so subcommands don't share buckets.
  *
- * @param command The command being checked.
- * @param userId The ID of the user executing the command.
- * @returns A CooldownResult with `allowed` and optional `remaining` time.
+ * @param commandKey - Unique key of the command
+ * @param scope - What the cooldown applies to
+ * @param interaction - The interaction invoking the command
+ * @returns The bucket key
  */
-export function checkCooldown(
-  commandName: string,
-  commandCooldown: number | undefined,
-  userId: string,
-): number {
-  if (!commandCooldown) return 0;
+export function getCooldownKey(
+  commandKey: string,
+  scope: CooldownScope,
+  interaction: BaseInteraction,
+): string {
+  switch (scope) {
+    case 'global':
+      return `${commandKey}:global`;
+    case 'guild':
+      // DMs don't have a guild, fall back to the user
+      return interaction.guildId
+        ? `${commandKey}:guild:${interaction.guildId}`
+        : `${commandKey}:user:${interaction.user.id}`;
+    case 'channel':
+      return `${commandKey}:channel:${interaction.channelId ?? interaction.user.id}`;
+    case 'user':
+    default:
+      return `${commandKey}:user:${interaction.user.id}`;
+  }
+}
 
+/**
+ * Gets how long a cooldown bucket is still on cooldown, without starting it.
+ *
+ * @param store - The store the cooldowns are kept in
+ * @param key - The bucket key, see `getCooldownKey`
+ * @returns The remaining cooldown in milliseconds, 0 if the command can be used
+ */
+export async function getRemainingCooldown(
+  store: CooldownStore,
+  key: string,
+): Promise<number> {
   const now = Date.now();
-  let cooldownMap = tracker.get(commandName);
+  const canBeUsedAgainAt = await store.get(key);
 
-  if (!cooldownMap) {
-    cooldownMap = new Map();
-    tracker.set(commandName, cooldownMap);
+  if (canBeUsedAgainAt && now < canBeUsedAgainAt) {
+    return canBeUsedAgainAt - now;
   }
 
-  // Clean up expired entries
-  for (const [id, expiry] of cooldownMap) {
-    if (expiry <= now) {
-      cooldownMap.delete(id);
-    }
-  }
+  return 0;
+}
 
-  const canBeUsedAgainAt = cooldownMap.get(userId);
+/**
+ * Starts the cooldown of a bucket.
+ *
+ * @param store - The store the cooldowns are kept in
+ * @param key - The bucket key, see `getCooldownKey`
+ * @param commandCooldown - The cooldown of the command in milliseconds
+ */
+export async function startCooldown(
+  store: CooldownStore,
+  key: string,
+  commandCooldown: number,
+): Promise<void> {
+  await store.set(key, Date.now() + commandCooldown);
+}
 
-  if (canBeUsedAgainAt && now < canBeUsedAgainAt) {
-    return canBeUsedAgainAt - now;
-  }
+/**
+ * Checks whether a cooldown bucket allows the command to run.
+ *
+ * If the command has no cooldown, it is always allowed.
+ * If the bucket is on cooldown, returns how long they still need to wait.
+ * Otherwise the cooldown is started and 0 is returned.
+ *
+ * @param store - The store the cooldowns are kept in
+ * @param key - The bucket key, see `getCooldownKey`
+ * @param commandCooldown - The cooldown of the command in milliseconds
+ * @returns The remaining cooldown in milliseconds, 0 if the command can be used
+ */
+export async function checkCooldown(
+  store: CooldownStore,
+  key: string,
+  commandCooldown: number | undefined,
+): Promise<number> {
+  if (!commandCooldown) return 0;
+
+  const remaining = await getRemainingCooldown(store, key);
+  if (remaining > 0) return remaining;
 
-  cooldownMap.set(userId, now + commandCooldown);
+  await startCooldown(store, key, commandCooldown);
 
   return 0;
 }
@@ -0,0 +1,300 @@
+import {
+  APIApplicationCommand,
+  ApplicationCommandType,
+  RESTPostAPIApplicationCommandsJSONBody,
+  REST,
+  Routes,
+} from 'discord.js';
+
+import { DeployChange, DeployOptions, DeployReport } from '../types/deploy.js';
+import { ILogger } from '../types/logger.js';
+
+/** Top-level command fields that are always compared */
+const COMMAND_KEYS = [
+  'type',
+  'name',
+  'name_localizations',
+  'description',
+  'description_localizations',
+  'options',
+  'default_member_permissions',
+  'nsfw',
+] as const;
+
+/**
+ * Top-level command fields Discord fills in with defaults when they're omitted,
+ * so they're only compared when the local definition sets them.
+ */
+const OPTIONAL_COMMAND_KEYS = [
+  'contexts',
+  'integration_types',
+  'dm_permission',
+] as const;
+
+/** Fields compared for each (sub)command option */
+const OPTION_KEYS = [
+  'type',
+  'name',
+  'name_localizations',
+  'description',
+  'description_localizations',
+  'required',
+  'choices',
+  'channel_types',
+  'min_value',
+  'max_value',
+  'min_length',
+  'max_length',
+  'autocomplete',
+  'options',
+] as const;
+
+/** Fields compared for each option choice */
+const CHOICE_KEYS = ['name', 'name_localizations', 'value'] as const;
+
+/**
+ * Whether a value is equivalent to the field being omitted.
+ */
+function isBlank(value: unknown): boolean {
+  if (value === undefined || value === null || value === false) return true;
+  if (value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+/**
+ * Copies the given keys from a command/option object, dropping blank values
+ * and recursing into nested options and choices.
+ */
+function project(
+  source: Record<string, unknown>,
+  keys: readonly string[],
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const key of keys) {
+    let value = source[key];
+    if (isBlank(value)) continue;
+
+    if (key === 'options' && Array.isArray(value)) {
+      value = value.map((opt: Record<string, unknown>) =>
+        project(opt, OPTION_KEYS),
+      );
+    } else if (key === 'choices' && Array.isArray(value)) {
+      value = value.map((choice: Record<string, unknown>) =>
+        project(choice, CHOICE_KEYS),
+      );
+    }
+
+    result[key] = value;
+  }
+
+  return result;
+}
+
+/**
+ * JSON.stringify with sorted object keys, so key order doesn't cause false diffs.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`,
+      );
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Gets the type of a command, defaulting to chat input like Discord does.
+ */
+function commandType(command: { type?: ApplicationCommandType }) {
+  return command.type ?? ApplicationCommandType.ChatInput;
+}
+
+/**
+ * Checks whether a command registered on Discord matches its local definition.
+ *
+ * @param local - The local command definition
+ * @param remote - The command as returned by the Discord API
+ * @returns true if both describe the same command
+ */
+export function isCommandEqual(
+  local: RESTPostAPIApplicationCommandsJSONBody,
+  remote: APIApplicationCommand,
+): boolean {
+  const localRecord = {
+    ...local,
+    type: commandType(local),
+  } as Record<string, unknown>;
+  const remoteRecord = remote as unknown as Record<string, unknown>;
+
+  const optionalKeys = OPTIONAL_COMMAND_KEYS.filter(
+    (key) => !isBlank(localRecord[key]),
+  );
+  const keys = [...COMMAND_KEYS, ...optionalKeys];
+
+  return (
+    stableStringify(project(localRecord, keys)) ===
+    stableStringify(project(remoteRecord, keys))
+  );
+}
+
+/**
+ * Computes which commands need to be created, updated or deleted to bring the
+ * commands registered on Discord in line with the local definitions.
+ *
+ * Commands are matched by type and name, since Discord allows e.g. a slash
+ * command and a context menu command with the same name.
+ *
+ * @param local - The local command definitions
+ * @param remote - The commands currently registered on Discord
+ * @param deleteUnknown - Whether remote commands without a local definition should be deleted
+ * @returns The commands to create, update and delete, and those that are unchanged
+ */
+export function diffCommands(
+  local: RESTPostAPIApplicationCommandsJSONBody[],
+  remote: APIApplicationCommand[],
+  deleteUnknown: boolean = true,
+) {
+  const remoteByKey = new Map(
+    remote.map((cmd) => [`${commandType(cmd)}:${cmd.name}`, cmd]),
+  );
+
+  const toCreate: RESTPostAPIApplicationCommandsJSONBody[] = [];
+  const toUpdate: Array<{
+    id: string;
+    body: RESTPostAPIApplicationCommandsJSONBody;
+  }> = [];
+  const unchanged: APIApplicationCommand[] = [];
+
+  for (const cmd of local) {
+    const key = `${commandType(cmd)}:${cmd.name}`;
+    const existing = remoteByKey.get(key);
+    remoteByKey.delete(key);
+
+    if (!existing) {
+      toCreate.push(cmd);
+    } else if (isCommandEqual(cmd, existing)) {
+      unchanged.push(existing);
+    } else {
+      toUpdate.push({ id: existing.id, body: cmd });
+    }
+  }
+
+  const toDelete = deleteUnknown ? Array.from(remoteByKey.values()) : [];
+
+  return { toCreate, toUpdate, toDelete, unchanged };
+}
+
+/**
+ * Deploys commands to Discord, only touching the commands that changed.
+ *
+ * Fetches the commands that are already registered (globally or in a guild),
+ * diffs them against the local definitions and then creates, patches and
+ * deletes commands as needed. With `dryRun` only the report is computed.
+ *
+ * Usually called through `CommandManager.deploy`.
+ *
+ * @param local - The local command definitions
+ * @param options - Deployment options
+ * @param logger - Optional logger to log each change with
+ * @returns A report of all changes
+ *
+ * @example
+ * ```typescript
+ * const report = await deployCommands(commandManager.toDiscordJSON(), {
+ *   token: process.env.DISCORD_TOKEN!,
+ *   applicationId: process.env.CLIENT_ID!,
+ *   dryRun: true,
+ * });
+ * console.log(`${report.created.length} commands would be created`);
+ * ```
+ */
+export async function deployCommands(
+  local: RESTPostAPIApplicationCommandsJSONBody[],
+  options: DeployOptions,
+  logger?: ILogger,
+): Promise<DeployReport> {
+  const {
+    token,
+    applicationId,
+    guildId,
+    dryRun = false,
+    deleteUnknown = true,
+    apiBaseUrl,
+  } = options;
+  const scope = 'DEPLOY';
+
+  const rest = new REST({
+    version: '10',
+    ...(apiBaseUrl ? { api: apiBaseUrl } : {}),
+  }).setToken(token);
+
+  const listRoute = guildId
+    ? Routes.applicationGuildCommands(applicationId, guildId)
+    : Routes.applicationCommands(applicationId);
+  const commandRoute = (id: string) =>
+    guildId
+      ? Routes.applicationGuildCommand(applicationId, guildId, id)
+      : Routes.applicationCommand(applicationId, id);
+
+  const remote = (await rest.get(listRoute)) as APIApplicationCommand[];
+  const { toCreate, toUpdate, toDelete, unchanged } = diffCommands(
+    local,
+    remote,
+    deleteUnknown,
+  );
+
+  const report: DeployReport = {
+    dryRun,
+    guildId: guildId ?? null,
+    created: [],
+    updated: [],
+    deleted: [],
+    unchanged: unchanged.map((cmd) => ({
+      name: cmd.name,
+      type: commandType(cmd),
+      id: cmd.id,
+    })),
+  };
+
+  const prefix = dryRun ? '[dry run] ' : '';
+
+  for (const body of toCreate) {
+    let change: DeployChange = { name: body.name, type: commandType(body) };
+    if (!dryRun) {
+      const created = (await rest.post(listRoute, {
+        body,
+      })) as APIApplicationCommand;
+      change = { ...change, id: created.id };
+    }
+    report.created.push(change);
+    logger?.info(`${prefix}Created command: ${body.name}`, scope);
+  }
+
+  for (const { id, body } of toUpdate) {
+    if (!dryRun) {
+      await rest.patch(commandRoute(id), { body });
+    }
+    report.updated.push({ name: body.name, type: commandType(body), id });
+    logger?.info(`${prefix}Updated command: ${body.name}`, scope);
+  }
+
+  for (const cmd of toDelete) {
+    if (!dryRun) {
+      await rest.delete(commandRoute(cmd.id));
+    }
+    report.deleted.push({ name: cmd.name, type: commandType(cmd), id: cmd.id });
+    logger?.info(`${prefix}Deleted command: ${cmd.name}`, scope);
+  }
+
+  return report;
+}
@@ -1,27 +1,89 @@
-import Stream from 'stream';
-
 import {
-  ActionRowBuilder,
-  APIAttachment,
-  Attachment,
-  AttachmentBuilder,
-  AttachmentPayload,
-  BufferResolvable,
-  ButtonInteraction,
-  ChannelSelectMenuInteraction,
-  ChatInputCommandInteraction,
   EmbedBuilder,
   InteractionEditReplyOptions,
   InteractionReplyOptions,
-  JSONEncodable,
   Message,
   MessageFlags,
-  ModalSubmitInteraction,
-  StringSelectMenuInteraction,
 } from 'discord.js';
 
 import { InteractionError } from '../classes/InteractionError.class.js';
+import { MessageLayoutComponent } from '../types/layout.js';
+import {
+  ReplyFile,
+  SafeEditOptions,
+  SafeReplyInteraction,
+  SafeReplyOptions,
+} from '../types/reply.js';
+
+import { trackReply, waitForAutoDefer } from './autoDefer.js';
+import { assertEmbedLimits } from './embedLimits.js';
+import { createTextDisplay, isComponentsV2 } from './embeds.js';
+
+/**
+ * Puts the content in a text display above the components, since messages
+ * with Components V2 layouts can't have content or embeds.
+ *
+ * @throws {Error} If embeds are combined with a layout
+ */
+function toLayout(
+  content: string | undefined,
+  embeds: EmbedBuilder[] | undefined,
+  components: MessageLayoutComponent[],
+): MessageLayoutComponent[] {
+  if (embeds && embeds.length > 0) {
+    throw new Error("Embeds can't be combined with Components V2 layouts");
+  }
+
+  return content ? [createTextDisplay(content), ...components] : components;
+}
+
+/**
+ * Throws if the interaction can't be responded to anymore.
+ *
+ * Replies must be sent within 3 minutes, after an interaction was deferred
+ * or replied to it can be followed up and edited for 15 minutes.
+ *
+ * @throws {InteractionError} If the interaction is too old
+ */
+function assertNotExpired(interaction: SafeReplyInteraction): void {
+  const acknowledged = interaction.replied || interaction.deferred;
+  const minutes = acknowledged ? 15 : 3;
+
+  if (Date.now() - interaction.createdTimestamp > minutes * 60 * 1000) {
+    throw new InteractionError(
+      `Interaction is older than ${minutes} minutes`,
+      interaction.id,
+      'expired',
+    );
+  }
+}
 
+/**
+ * Safely replies to an interaction, handling deferred/replied states.
+ *
+ * Accepts either an options object with the full message, or the message
+ * as positional arguments.
+ *
+ * @param interaction - The interaction to reply to
+ * @param options - The message to send, see `SafeReplyOptions`
+ * @returns The message that was sent
+ * @throws {InteractionError} If the interaction is too old or fails
+ * @throws {EmbedLimitError} If the embeds exceed Discord's limits
+ * @throws {Error} If embeds are combined with Components V2 layout components
+ *
+ * @example
+ * ```typescript
+ * await safeReply(interaction, {
+ *   content: `${user} was warned`,
+ *   allowedMentions: { parse: [] },
+ *   files: [report],
+ * });
+ * ```
+ */
+export function safeReply(
+  interaction: SafeReplyInteraction,
+  options: SafeReplyOptions,
+): Promise<Message>;
 /**
  * Safely replies to an interaction, handling deferred/replied states.
  *
@@ -29,10 +91,14 @@ import { InteractionError } from '../classes/InteractionError.class.js';
  * @param content - The message content
  * @param ephemeral - Whether the reply should be ephemeral
  * @param embeds - Optional embeds to include
- * @param components - Optional components to include
+ * @param components - Optional components to include. With Components V2 layout
+ * components (containers, sections, text displays, etc.) the IsComponentsV2 flag
+ * is set and the content is shown in a text display above them
  * @param files - Optional files to attach
  * @returns The message that was sent
  * @throws {InteractionError} If the interaction is too old or fails
+ * @throws {EmbedLimitError} If the embeds exceed Discord's limits
+ * @throws {Error} If embeds are combined with Components V2 layout components
  *
  * @example
  * ```typescript
@@ -45,49 +111,65 @@ import { InteractionError } from '../classes/InteractionError.class.js';
  * }
  * ```
  */
-export async function safeReply(
-  interaction:
-    | ChatInputCommandInteraction
-    | ButtonInteraction
-    | ModalSubmitInteraction
-    | ChannelSelectMenuInteraction
-    | StringSelectMenuInteraction,
+export function safeReply(
+  interaction: SafeReplyInteraction,
   content: string,
+  ephemeral?: boolean,
+  embeds?: EmbedBuilder[],
+  components?: MessageLayoutComponent[],
+  files?: ReplyFile[],
+): Promise<Message>;
+export async function safeReply(
+  interaction: SafeReplyInteraction,
+  contentOrOptions: string | SafeReplyOptions,
   ephemeral: boolean = false,
   embeds?: EmbedBuilder[],
-  components?: ActionRowBuilder<any>[],
-  files?: (
-    | BufferResolvable
-    | Stream
-    | JSONEncodable<APIAttachment>
-    | Attachment
-    | AttachmentBuilder
-    | AttachmentPayload
-  )[],
+  components?: MessageLayoutComponent[],
+  files?: ReplyFile[],
 ): Promise<Message> {
-  // Check if interaction is too old
-  const now = Date.now();
-  const threeMinutes = 3 * 60 * 1000;
+  const options: SafeReplyOptions =
+    typeof contentOrOptions === 'string'
+      ? { content: contentOrOptions, ephemeral, embeds, components, files }
+      : contentOrOptions;
 
-  if (now - interaction.createdTimestamp > threeMinutes) {
-    throw new InteractionError(
-      'Interaction is older than 3 minutes',
-      interaction.id,
-      'expired',
-    );
-  }
+  // A defer started by autoDefer decides whether this is a reply or follow-up
+  await waitForAutoDefer(interaction);
+  assertNotExpired(interaction);
+
+  if (options.embeds) assertEmbedLimits(options.embeds);
 
-  const payload: InteractionReplyOptions = {
-    ...(content ? { content } : {}),
-    ...(ephemeral ? { flags: MessageFlags.Ephemeral } : {}),
-    ...(embeds ? { embeds } : {}),
-    ...(components ? { components } : {}),
-    ...(files ? { files } : {}),
+  const flags: (MessageFlags.Ephemeral | MessageFlags.IsComponentsV2)[] = [];
+  if (options.ephemeral) flags.push(MessageFlags.Ephemeral);
+
+  const extras = {
+    ...(options.files ? { files: options.files } : {}),
+    ...(options.allowedMentions
+      ? { allowedMentions: options.allowedMentions }
+      : {}),
+    ...(options.poll ? { poll: options.poll } : {}),
   };
 
+  const payload: InteractionReplyOptions = isComponentsV2(options.components)
+    ? {
+        components: toLayout(
+          options.content,
+          options.embeds,
+          options.components ?? [],
+        ),
+        flags: [...flags, MessageFlags.IsComponentsV2],
+        ...extras,
+      }
+    : {
+        ...(options.content ? { content: options.content } : {}),
+        ...(flags.length > 0 ? { flags } : {}),
+        ...(options.embeds ? { embeds: options.embeds } : {}),
+        ...(options.components ? { components: options.components } : {}),
+        ...extras,
+      };
+
   try {
     if (!interaction.replied && !interaction.deferred) {
-      await interaction.reply(payload);
+      await trackReply(interaction, () => interaction.reply(payload));
       return await interaction.fetchReply();
     } else {
       return await interaction.followUp(payload);
@@ -102,45 +184,94 @@ export async function safeReply(
   }
 }
 
+/**
+ * Safely edits an interaction reply.
+ *
+ * Accepts either an options object with the full set of changes, or the
+ * changes as positional arguments.
+ *
+ * @param interaction - The interaction to edit
+ * @param options - The changes to make, see `SafeEditOptions`
+ * @returns The edited message
+ * @throws {InteractionError} If the interaction is too old or fails
+ * @throws {EmbedLimitError} If the embeds exceed Discord's limits
+ * @throws {Error} If embeds are combined with Components V2 layout components
+ *
+ * @example
+ * ```typescript
+ * await safeEdit(interaction, { content: 'Here is your export', files: [csv] });
+ * ```
+ */
+export function safeEdit(
+  interaction: SafeReplyInteraction,
+  options: SafeEditOptions,
+): Promise<Message>;
 /**
  * Safely edits an interaction reply.
  *
  * @param interaction - The interaction to edit
  * @param content - The new message content
  * @param embeds - Optional embeds to include
- * @param components - Optional components to include
+ * @param components - Optional components to include. With Components V2 layout
+ * components the IsComponentsV2 flag is set and the content and embeds of the
+ * message are replaced by them
  * @returns The edited message
  * @throws {InteractionError} If the interaction is too old or fails
+ * @throws {EmbedLimitError} If the embeds exceed Discord's limits
+ * @throws {Error} If embeds are combined with Components V2 layout components
  */
-export async function safeEdit(
-  interaction:
-    | ChatInputCommandInteraction
-    | ButtonInteraction
-    | ModalSubmitInteraction
-    | ChannelSelectMenuInteraction
-    | StringSelectMenuInteraction,
+export function safeEdit(
+  interaction: SafeReplyInteraction,
   content: string,
   embeds?: EmbedBuilder[],
-  components?: ActionRowBuilder<any>[],
+  components?: MessageLayoutComponent[],
+): Promise<Message>;
+export async function safeEdit(
+  interaction: SafeReplyInteraction,
+  contentOrOptions: string | SafeEditOptions,
+  embeds?: EmbedBuilder[],
+  components?: MessageLayoutComponent[],
 ): Promise<Message> {
-  // Check if interaction is too old
-  const now = Date.now();
-  const threeMinutes = 3 * 60 * 1000;
+  const options: SafeEditOptions =
+    typeof contentOrOptions === 'string'
+      ? { content: contentOrOptions, embeds, components }
+      : contentOrOptions;
 
-  if (now - interaction.createdTimestamp > threeMinutes) {
-    throw new InteractionError(
-      'Interaction is older than 3 minutes',
-      interaction.id,
-      'expired',
-    );
-  }
+  await waitForAutoDefer(interaction);
+  assertNotExpired(interaction);
 
-  const editPayload: InteractionEditReplyOptions = {
-    ...(content ? { content } : {}),
-    ...(embeds ? { embeds } : {}),
-    ...(components ? { components } : {}),
+  if (options.embeds) assertEmbedLimits(options.embeds);
+
+  const extras = {
+    ...(options.files ? { files: options.files } : {}),
+    ...(options.attachments ? { attachments: options.attachments } : {}),
+    ...(options.allowedMentions
+      ? { allowedMentions: options.allowedMentions }
+      : {}),
+    ...(options.poll ? { poll: options.poll } : {}),
   };
 
+  const editPayload: InteractionEditReplyOptions = isComponentsV2(
+    options.components,
+  )
+    ? {
+        content: null,
+        embeds: [],
+        components: toLayout(
+          options.content,
+          options.embeds,
+          options.components ?? [],
+        ),
+        flags: MessageFlags.IsComponentsV2,
+        ...extras,
+      }
+    : {
+        ...(options.content ? { content: options.content } : {}),
+        ...(options.embeds ? { embeds: options.embeds } : {}),
+        ...(options.components ? { components: options.components } : {}),
+        ...extras,
+      };
+
   try {
     return await interaction.editReply(editPayload);
   } catch (err: any) {
@@ -0,0 +1,181 @@
+import { APIEmbed, EmbedBuilder } from 'discord.js';
+
+import { EmbedLimitError } from '../classes/EmbedLimitError.class.js';
+import { EmbedLimit, EmbedLimitViolation } from '../types/embed.js';
+
+/**
+ * Discord's embed limits
+ */
+export const EMBED_LIMITS = {
+  title: 256,
+  description: 4096,
+  fields: 25,
+  fieldName: 256,
+  fieldValue: 1024,
+  footer: 2048,
+  author: 256,
+  total: 6000,
+  embeds: 10,
+} as const satisfies Record<EmbedLimit, number>;
+
+/**
+ * Counts the characters of an embed that count towards the total limit.
+ *
+ * @param embed - The embed to measure
+ * @returns The combined length of the title, description, fields, footer and author
+ */
+export function embedLength(embed: EmbedBuilder | APIEmbed): number {
+  const data = embed instanceof EmbedBuilder ? embed.data : embed;
+
+  return (
+    (data.title?.length ?? 0) +
+    (data.description?.length ?? 0) +
+    (data.fields ?? []).reduce(
+      (sum, field) => sum + field.name.length + field.value.length,
+      0,
+    ) +
+    (data.footer?.text.length ?? 0) +
+    (data.author?.name.length ?? 0)
+  );
+}
+
+/**
+ * Checks the embeds of a message against Discord's limits.
+ *
+ * @param embeds - The embeds of the message
+ * @returns Every exceeded limit, empty if the embeds are valid
+ *
+ * @example
+ * ```typescript
+ * const violations = checkEmbedLimits([embed]);
+ * if (violations.length > 0) {
+ *   console.log(violations[0].message); // "Embed 1: description is 5000 characters long (max 4096)"
+ * }
+ * ```
+ */
+export function checkEmbedLimits(
+  embeds: (EmbedBuilder | APIEmbed)[],
+): EmbedLimitViolation[] {
+  const violations: EmbedLimitViolation[] = [];
+
+  const check = (
+    limit: EmbedLimit,
+    actual: number,
+    what: string,
+    embed?: number,
+    field?: number,
+  ) => {
+    const max = EMBED_LIMITS[limit];
+    if (actual <= max) return;
+
+    const prefix = embed === undefined ? 'Message' : `Embed ${embed + 1}`;
+    violations.push({
+      limit,
+      max,
+      actual,
+      embed,
+      field,
+      message: `${prefix}: ${what} (max ${max})`,
+    });
+  };
+
+  check('embeds', embeds.length, `has ${embeds.length} embeds`);
+
+  for (const [i, embed] of embeds.entries()) {
+    const data = embed instanceof EmbedBuilder ? embed.data : embed;
+    const fields = data.fields ?? [];
+
+    const length = (name: string, text?: string) =>
+      `${name} is ${text?.length ?? 0} characters long`;
+
+    check('title', data.title?.length ?? 0, length('title', data.title), i);
+    check(
+      'description',
+      data.description?.length ?? 0,
+      length('description', data.description),
+      i,
+    );
+    check('fields', fields.length, `has ${fields.length} fields`, i);
+
+    for (const [j, field] of fields.entries()) {
+      check(
+        'fieldName',
+        field.name.length,
+        length(`field ${j + 1} name`, field.name),
+        i,
+        j,
+      );
+      check(
+        'fieldValue',
+        field.value.length,
+        length(`field ${j + 1} value`, field.value),
+        i,
+        j,
+      );
+    }
+
+    check(
+      'footer',
+      data.footer?.text.length ?? 0,
+      length('footer', data.footer?.text),
+      i,
+    );
+    check(
+      'author',
+      data.author?.name.length ?? 0,
+      length('author name', data.author?.name),
+      i,
+    );
+  }
+
+  const total = embeds.reduce((sum, embed) => sum + embedLength(embed), 0);
+  check('total', total, `embeds have ${total} characters in total`);
+
+  return violations;
+}
+
+/**
+ * Checks the embeds of a message against Discord's limits and throws if any is exceeded.
+ *
+ * @param embeds - The embeds of the message
+ * @throws {EmbedLimitError} With every exceeded limit
+ */
+export function assertEmbedLimits(embeds: (EmbedBuilder | APIEmbed)[]): void {
+  const violations = checkEmbedLimits(embeds);
+
+  if (violations.length > 0) {
+    throw new EmbedLimitError(violations);
+  }
+}
+
+/**
+ * Splits text into chunks of at most `max` characters.
+ *
+ * Prefers splitting at line breaks, then at spaces, and only cuts words
+ * that are longer than `max` on their own.
+ *
+ * @param text - The text to split
+ * @param max - The maximum length of a chunk, defaults to the description limit
+ * @returns The chunks, empty for empty text
+ */
+export function splitText(
+  text: string,
+  max: number = EMBED_LIMITS.description,
+): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+
+  while (rest.length > max) {
+    const part = rest.slice(0, max + 1);
+    let cut = part.lastIndexOf('\n');
+    if (cut <= 0) cut = part.lastIndexOf(' ');
+    if (cut <= 0) cut = max;
+
+    chunks.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).replace(/^[\n ]/, '');
+  }
+
+  if (rest.length > 0) chunks.push(rest);
+
+  return chunks;
+}
@@ -5,9 +5,28 @@ import {
   ButtonStyle,
   ButtonBuilder,
   ActionRowBuilder,
+  ContainerBuilder,
+  MediaGalleryBuilder,
+  resolveColor,
+  SectionBuilder,
+  SeparatorBuilder,
+  SeparatorSpacingSize,
+  TextDisplayBuilder,
 } from 'discord.js';
 
 import { PaginationButtonLocation } from '../types/button.js';
+import {
+  ContainerChild,
+  MediaGalleryItem,
+  MessageLayoutComponent,
+} from '../types/layout.js';
+
+import {
+  assertEmbedLimits,
+  embedLength,
+  EMBED_LIMITS,
+  splitText,
+} from './embedLimits.js';
 
 /**
  * Util function for building an embed
@@ -21,6 +40,7 @@ import { PaginationButtonLocation } from '../types/button.js';
  * @param customize - A function to customize the embed further, defaults to no customization
  *
  * @returns An EmbedBuilder instance with the specified properties
+ * @throws {EmbedLimitError} If the title, description, fields or footer exceed Discord's limits
  */
 export function embedBuilder({
   title,
@@ -39,6 +59,16 @@ export function embedBuilder({
   color?: ColorResolvable;
   customize?: (embed: EmbedBuilder) => EmbedBuilder;
 }): EmbedBuilder {
+  // Report the exact limit instead of the builder's generic validation error
+  assertEmbedLimits([
+    {
+      title,
+      description,
+      fields,
+      ...(footer ? { footer: { text: footer } } : {}),
+    },
+  ]);
+
   let embed = new EmbedBuilder().setTitle(title).setColor(color);
 
   if (fields && fields.length > 0) embed = embed.setFields(fields);
@@ -49,6 +79,111 @@ export function embedBuilder({
   return customize(embed);
 }
 
+/**
+ * Builds as many embeds as needed to fit a long description or many fields
+ * within Discord's limits.
+ *
+ * The description is split at line breaks where possible, and the fields
+ * are spread over the embeds after the last part of the description. Every
+ * embed gets the same title, footer and color. Use the result as the embeds
+ * of several messages (see `chunkEmbeds`) or as the pages of a PaginatedEmbed.
+ *
+ * @param options - The same options as `embedBuilder`
+ * @returns The embeds, at least one
+ *
+ * @example
+ * ```typescript
+ * const pages = splitEmbed({ title: 'Members', description: members.join('\n') });
+ * await new PaginatedEmbed(interaction, pages, (embed) => [embed]).start();
+ * ```
+ */
+export function splitEmbed(
+  options: Parameters<typeof embedBuilder>[0],
+): EmbedBuilder[] {
+  const { title, description, fields = [], footer } = options;
+  const base = title.length + (footer?.length ?? 0);
+
+  const pages: { description?: string; fields: APIEmbedField[] }[] = (
+    description
+      ? splitText(
+          description,
+          Math.min(EMBED_LIMITS.description, EMBED_LIMITS.total - base),
+        )
+      : []
+  ).map((part) => ({ description: part, fields: [] }));
+
+  if (pages.length === 0) pages.push({ fields: [] });
+
+  for (const field of fields) {
+    const page = pages[pages.length - 1];
+    const length =
+      base +
+      (page.description?.length ?? 0) +
+      [...page.fields, field].reduce(
+        (sum, f) => sum + f.name.length + f.value.length,
+        0,
+      );
+
+    if (
+      page.fields.length >= EMBED_LIMITS.fields ||
+      length > EMBED_LIMITS.total
+    ) {
+      pages.push({ fields: [field] });
+    } else {
+      page.fields.push(field);
+    }
+  }
+
+  return pages.map((page) =>
+    embedBuilder({
+      ...options,
+      description: page.description,
+      fields: page.fields,
+    }),
+  );
+}
+
+/**
+ * Groups embeds into messages that stay within Discord's limits of
+ * 10 embeds and 6000 characters per message.
+ *
+ * @param embeds - The embeds to send
+ * @returns The embeds of each message, in order
+ *
+ * @example
+ * ```typescript
+ * const [first, ...rest] = chunkEmbeds(splitEmbed({ title: 'Log', description: log }));
+ * await safeReply(interaction, '', false, first);
+ * for (const embeds of rest) await interaction.followUp({ embeds });
+ * ```
+ */
+export function chunkEmbeds(embeds: EmbedBuilder[]): EmbedBuilder[][] {
+  const messages: EmbedBuilder[][] = [];
+  let current: EmbedBuilder[] = [];
+  let length = 0;
+
+  for (const embed of embeds) {
+    const size = embedLength(embed);
+
+    if (
+      current.length > 0 &&
+      (current.length >= EMBED_LIMITS.embeds ||
+        length + size > EMBED_LIMITS.total)
+    ) {
+      messages.push(current);
+      current = [];
+      length = 0;
+    }
+
+    current.push(embed);
+    length += size;
+  }
+
+  if (current.length > 0) messages.push(current);
+
+  return messages;
+}
+
 /**
  * Creates a single button based on its type and config.
  *
@@ -78,12 +213,20 @@ export function createButton({
     .setDisabled(disabled);
 
   switch (type) {
+    case 'first':
+      return button.setLabel(label ?? 'First').setStyle(ButtonStyle.Secondary);
     case 'prev':
       return button
         .setLabel(label ?? 'Previous')
         .setStyle(ButtonStyle.Secondary);
     case 'next':
       return button.setLabel(label ?? 'Next').setStyle(ButtonStyle.Secondary);
+    case 'last':
+      return button.setLabel(label ?? 'Last').setStyle(ButtonStyle.Secondary);
+    case 'goto':
+      return button
+        .setLabel(label ?? 'Go to page')
+        .setStyle(ButtonStyle.Secondary);
     case 'edit':
       return button.setLabel(label ?? 'Edit').setStyle(ButtonStyle.Primary);
     case 'delete':
@@ -96,16 +239,19 @@ export function createButton({
 }
 
 /**
- * Creates an `ButtonBuilder[]` with a prev and next button (in that order).
+ * Creates an `ButtonBuilder[]` with a prev and next button (in that order),
+ * optionally surrounded by a first and last button.
  *
  * @param index - The current index of the item being paginated
  * @param total - The total number of pages
+ * @param firstLast - Whether to add first and last buttons, defaults to false
  *
  * @returns An `ButtonBuilder[]` containing the buttons
  */
 export function createPaginationButtons(
   index: number,
   total: number,
+  firstLast: boolean = false,
 ): ButtonBuilder[] {
   const buttons = [
     createButton({
@@ -118,20 +264,38 @@ export function createPaginationButtons(
     }),
   ];
 
+  if (firstLast) {
+    buttons.unshift(createButton({ type: 'first', disabled: index === 0 }));
+    buttons.push(createButton({ type: 'last', disabled: index === total - 1 }));
+  }
+
   return buttons;
 }
 
+/**
+ * Creates a row of buttons, optionally with pagination buttons.
+ *
+ * With the `'embrace'` location, the first half of the pagination buttons
+ * goes before the normal buttons and the second half after them.
+ *
+ * @param normalButtons - The buttons to add
+ * @param pagination - Pagination buttons (as created by `createPaginationButtons`) and where to put them
+ *
+ * @returns An `ActionRowBuilder` containing the buttons
+ */
 export function createButtonsRow(
   normalButtons: ButtonBuilder[],
   pagination?: { buttons: ButtonBuilder[]; location: PaginationButtonLocation },
 ) {
-  if (pagination && pagination.buttons.length === 2) {
+  if (pagination && pagination.buttons.length >= 2) {
+    const half = Math.ceil(pagination.buttons.length / 2);
+
     switch (pagination.location) {
       case 'embrace':
         return new ActionRowBuilder<ButtonBuilder>().addComponents(
-          pagination.buttons[0],
+          ...pagination.buttons.slice(0, half),
           ...normalButtons,
-          pagination.buttons[1],
+          ...pagination.buttons.slice(half),
         );
       case 'start':
         return new ActionRowBuilder<ButtonBuilder>().addComponents(
@@ -150,3 +314,142 @@ export function createButtonsRow(
     );
   }
 }
+
+/**
+ * Creates a text display, a block of markdown text in a Components V2 layout.
+ *
+ * @param content - The markdown text
+ *
+ * @returns A TextDisplayBuilder instance with the content
+ */
+export function createTextDisplay(content: string): TextDisplayBuilder {
+  return new TextDisplayBuilder().setContent(content);
+}
+
+/**
+ * Creates a separator, vertical space between components in a Components V2 layout.
+ *
+ * @param divider - Whether a line is shown, defaults to true
+ * @param spacing - The amount of space, defaults to 'small'
+ *
+ * @returns A SeparatorBuilder instance with the specified properties
+ */
+export function createSeparator({
+  divider = true,
+  spacing = 'small',
+}: {
+  divider?: boolean;
+  spacing?: 'small' | 'large';
+} = {}): SeparatorBuilder {
+  return new SeparatorBuilder()
+    .setDivider(divider)
+    .setSpacing(
+      spacing === 'large'
+        ? SeparatorSpacingSize.Large
+        : SeparatorSpacingSize.Small,
+    );
+}
+
+/**
+ * Creates a section, up to 3 text displays next to a button or thumbnail.
+ *
+ * @param text - The markdown text, or up to 3 texts shown below each other
+ * @param accessory - A button, or the URL of a thumbnail image
+ *
+ * @returns A SectionBuilder instance with the specified properties
+ */
+export function createSection({
+  text,
+  accessory,
+}: {
+  text: string | string[];
+  accessory: ButtonBuilder | string;
+}): SectionBuilder {
+  const section = new SectionBuilder().addTextDisplayComponents(
+    (Array.isArray(text) ? text : [text]).map(createTextDisplay),
+  );
+
+  return accessory instanceof ButtonBuilder
+    ? section.setButtonAccessory(accessory)
+    : section.setThumbnailAccessory((thumbnail) => thumbnail.setURL(accessory));
+}
+
+/**
+ * Creates a media gallery, a grid of up to 10 images or videos.
+ *
+ * @param items - The URLs of the media, optionally with a description and spoiler
+ *
+ * @returns A MediaGalleryBuilder instance with the items
+ */
+export function createMediaGallery(
+  items: MediaGalleryItem[],
+): MediaGalleryBuilder {
+  return new MediaGalleryBuilder().addItems(
+    items.map((item) => (builder) => {
+      const { url, description, spoiler } =
+        typeof item === 'string' ? { url: item } : item;
+
+      builder.setURL(url);
+      if (description) builder.setDescription(description);
+      if (spoiler) builder.setSpoiler(true);
+      return builder;
+    }),
+  );
+}
+
+/**
+ * Creates a container, which groups components in a box like an embed.
+ *
+ * @param components - The components in the container, in order
+ * @param color - The color of the bar on the left, optional
+ * @param spoiler - Whether the container is hidden as a spoiler, defaults to false
+ *
+ * @returns A ContainerBuilder instance with the components
+ */
+export function createContainer({
+  components,
+  color,
+  spoiler = false,
+}: {
+  components: ContainerChild[];
+  color?: ColorResolvable;
+  spoiler?: boolean;
+}): ContainerBuilder {
+  const container = new ContainerBuilder().setSpoiler(spoiler);
+
+  if (color !== undefined) container.setAccentColor(resolveColor(color));
+
+  for (const component of components) {
+    if (component instanceof ActionRowBuilder) {
+      container.addActionRowComponents(component);
+    } else if (component instanceof SectionBuilder) {
+      container.addSectionComponents(component);
+    } else if (component instanceof TextDisplayBuilder) {
+      container.addTextDisplayComponents(component);
+    } else if (component instanceof MediaGalleryBuilder) {
+      container.addMediaGalleryComponents(component);
+    } else if (component instanceof SeparatorBuilder) {
+      container.addSeparatorComponents(component);
+    } else {
+      container.addFileComponents(component);
+    }
+  }
+
+  return container;
+}
+
+/**
+ * Checks whether components include Components V2 layout components, in which
+ * case the message needs the IsComponentsV2 flag and can't have content or embeds.
+ *
+ * @param components - The top-level components of a message
+ *
+ * @returns true if any component isn't an action row
+ */
+export function isComponentsV2(
+  components?: readonly MessageLayoutComponent[],
+): boolean {
+  return (components ?? []).some(
+    (component) => !(component instanceof ActionRowBuilder),
+  );
+}
@@ -90,3 +90,26 @@ export function formatDuration(ms: number): string {
 
   return parts.join(' ');
 }
+
+/**
+ * Fills in the `{placeholders}` of a template string.
+ * Placeholders without a value are left as is.
+ *
+ * Examples:
+ *  - ("Hello {user}!", { user: "Bob" }) -> "Hello Bob!"
+ *  - ("{a} and {b}", { a: 1 }) -> "1 and {b}"
+ *
+ * @param template The template string
+ * @param values The values of the placeholders
+ * @returns The filled in string
+ */
+export function fillTemplate(
+  template: string,
+  values: Record<string, string | number>,
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key)
+      ? String(values[key])
+      : match,
+  );
+}
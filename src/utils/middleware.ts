@@ -0,0 +1,38 @@
+import { CommandContext, CommandMiddleware } from '../types/middleware.js';
+
+/**
+ * Runs a middleware chain and then the final handler.
+ *
+ * @param middleware - The middleware to run, in order
+ * @param ctx - The context passed to every middleware
+ * @param final - The handler to run after all middleware called `next()`
+ * @returns The message of the middleware that short-circuited, or null
+ * @throws {Error} If a middleware calls `next()` more than once
+ */
+export async function runMiddleware(
+  middleware: CommandMiddleware[],
+  ctx: CommandContext,
+  final: () => Promise<void>,
+): Promise<string | null> {
+  let rejection: string | null = null;
+  let lastIndex = -1;
+
+  const dispatch = async (index: number): Promise<void> => {
+    if (index <= lastIndex) {
+      throw new Error('next() called multiple times in command middleware');
+    }
+    lastIndex = index;
+
+    if (index === middleware.length) {
+      return await final();
+    }
+
+    const result = await middleware[index](ctx, () => dispatch(index + 1));
+    if (typeof result === 'string' && rejection === null) {
+      rejection = result;
+    }
+  };
+
+  await dispatch(0);
+  return rejection;
+}
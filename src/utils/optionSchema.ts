@@ -0,0 +1,280 @@
+import {
+  ChatInputCommandInteraction,
+  SharedSlashCommandOptions,
+} from 'discord.js';
+
+import {
+  OptionDefinition,
+  OptionSchema,
+  ParsedOptions,
+} from '../types/options.js';
+
+/**
+ * Helper to declare an option schema while keeping its literal types,
+ * so `run` receives fully typed arguments.
+ *
+ * @param schema - The option schema, keyed by option name
+ * @returns The same schema
+ *
+ * @example
+ * ```typescript
+ * const options = defineOptions({
+ *   user: { type: 'user', description: 'Who to greet', required: true },
+ *   times: { type: 'integer', description: 'How often', min: 1, max: 5, default: 1 },
+ * });
+ *
+ * export class GreetCommand extends Command<typeof options> {
+ *   name = 'greet';
+ *   description = 'Greet someone';
+ *   guildOnly = false;
+ *   permissionLevel = 'user' as const;
+ *   options = options;
+ *
+ *   protected async run(
+ *     interaction: ChatInputCommandInteraction,
+ *     client: Client,
+ *     args: ParsedOptions<typeof options>,
+ *   ) {
+ *     await safeReply(interaction, `Hello ${args.user}! `.repeat(args.times));
+ *   }
+ * }
+ * ```
+ */
+export function defineOptions<const S extends OptionSchema>(schema: S): S {
+  return schema;
+}
+
+/**
+ * Whether an option has to be filled in by the user.
+ */
+function isRequired(def: OptionDefinition): boolean {
+  return !!def.required && !('default' in def && def.default !== undefined);
+}
+
+/**
+ * Adds all options of a schema to a slash command (or subcommand) builder.
+ *
+ * Required options are added first, since Discord doesn't allow required
+ * options after optional ones.
+ *
+ * @param builder - The builder to add the options to
+ * @param schema - The option schema
+ * @returns The builder
+ */
+export function applyOptionSchema<B extends SharedSlashCommandOptions<any>>(
+  builder: B,
+  schema: OptionSchema,
+): B {
+  const entries = Object.entries(schema).sort(
+    ([, a], [, b]) => Number(isRequired(b)) - Number(isRequired(a)),
+  );
+
+  for (const [name, def] of entries) {
+    const required = isRequired(def);
+
+    switch (def.type) {
+      case 'string':
+        builder.addStringOption((opt) => {
+          opt.setName(name).setDescription(def.description);
+          opt.setRequired(required);
+          if (def.choices) opt.addChoices(...def.choices);
+          if (def.minLength !== undefined) opt.setMinLength(def.minLength);
+          if (def.maxLength !== undefined) opt.setMaxLength(def.maxLength);
+          if (def.autocomplete) opt.setAutocomplete(true);
+          return opt;
+        });
+        break;
+      case 'integer':
+        builder.addIntegerOption((opt) => {
+          opt.setName(name).setDescription(def.description);
+          opt.setRequired(required);
+          if (def.choices) opt.addChoices(...def.choices);
+          if (def.min !== undefined) opt.setMinValue(def.min);
+          if (def.max !== undefined) opt.setMaxValue(def.max);
+          if (def.autocomplete) opt.setAutocomplete(true);
+          return opt;
+        });
+        break;
+      case 'number':
+        builder.addNumberOption((opt) => {
+          opt.setName(name).setDescription(def.description);
+          opt.setRequired(required);
+          if (def.choices) opt.addChoices(...def.choices);
+          if (def.min !== undefined) opt.setMinValue(def.min);
+          if (def.max !== undefined) opt.setMaxValue(def.max);
+          if (def.autocomplete) opt.setAutocomplete(true);
+          return opt;
+        });
+        break;
+      case 'boolean':
+        builder.addBooleanOption((opt) =>
+          opt
+            .setName(name)
+            .setDescription(def.description)
+            .setRequired(required),
+        );
+        break;
+      case 'user':
+        builder.addUserOption((opt) =>
+          opt
+            .setName(name)
+            .setDescription(def.description)
+            .setRequired(required),
+        );
+        break;
+      case 'channel':
+        builder.addChannelOption((opt) => {
+          opt.setName(name).setDescription(def.description);
+          opt.setRequired(required);
+          if (def.channelTypes) opt.addChannelTypes(...def.channelTypes);
+          return opt;
+        });
+        break;
+      case 'role':
+        builder.addRoleOption((opt) =>
+          opt
+            .setName(name)
+            .setDescription(def.description)
+            .setRequired(required),
+        );
+        break;
+      case 'mentionable':
+        builder.addMentionableOption((opt) =>
+          opt
+            .setName(name)
+            .setDescription(def.description)
+            .setRequired(required),
+        );
+        break;
+      case 'attachment':
+        builder.addAttachmentOption((opt) =>
+          opt
+            .setName(name)
+            .setDescription(def.description)
+            .setRequired(required),
+        );
+        break;
+    }
+  }
+
+  return builder;
+}
+
+/**
+ * Validates a single option value against its definition.
+ *
+ * Discord enforces most constraints client-side, but not for autocompleted
+ * options, so everything is checked again here.
+ *
+ * @returns Error message if the value is invalid, null otherwise
+ */
+function validateOption(
+  name: string,
+  def: OptionDefinition,
+  value: unknown,
+): string | null {
+  switch (def.type) {
+    case 'string': {
+      const str = value as string;
+      if (def.choices && !def.choices.some((c) => c.value === str)) {
+        return `\`${name}\` must be one of: ${def.choices.map((c) => c.name).join(', ')}.`;
+      }
+      if (def.minLength !== undefined && str.length < def.minLength) {
+        return `\`${name}\` must be at least ${def.minLength} characters long.`;
+      }
+      if (def.maxLength !== undefined && str.length > def.maxLength) {
+        return `\`${name}\` must be at most ${def.maxLength} characters long.`;
+      }
+      return null;
+    }
+    case 'integer':
+    case 'number': {
+      const num = value as number;
+      if (def.type === 'integer' && !Number.isInteger(num)) {
+        return `\`${name}\` must be a whole number.`;
+      }
+      if (def.choices && !def.choices.some((c) => c.value === num)) {
+        return `\`${name}\` must be one of: ${def.choices.map((c) => c.name).join(', ')}.`;
+      }
+      if (def.min !== undefined && num < def.min) {
+        return `\`${name}\` must be at least ${def.min}.`;
+      }
+      if (def.max !== undefined && num > def.max) {
+        return `\`${name}\` must be at most ${def.max}.`;
+      }
+      return null;
+    }
+    case 'channel': {
+      const channel = value as { type: number };
+      if (
+        def.channelTypes &&
+        !def.channelTypes.some((t) => t === channel.type)
+      ) {
+        return `\`${name}\` is not an allowed type of channel.`;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reads and validates all options of a schema from an interaction.
+ *
+ * @param interaction - The command interaction to read the options from
+ * @param schema - The option schema
+ * @returns The parsed arguments, or an error message if any option is invalid
+ */
+export function parseOptions<S extends OptionSchema>(
+  interaction: ChatInputCommandInteraction,
+  schema: S,
+): { args: ParsedOptions<S>; error: null } | { args: null; error: string } {
+  const args: Record<string, unknown> = {};
+
+  for (const [name, def] of Object.entries(schema)) {
+    const option = interaction.options.get(name);
+    let value: unknown = null;
+
+    if (option) {
+      switch (def.type) {
+        case 'user':
+          value = option.user ?? null;
+          break;
+        case 'channel':
+          value = option.channel ?? null;
+          break;
+        case 'role':
+          value = option.role ?? null;
+          break;
+        case 'mentionable':
+          value = option.member ?? option.user ?? option.role ?? null;
+          break;
+        case 'attachment':
+          value = option.attachment ?? null;
+          break;
+        default:
+          value = option.value ?? null;
+      }
+    }
+
+    if (value === null) {
+      if ('default' in def && def.default !== undefined) {
+        args[name] = def.default;
+        continue;
+      }
+      if (def.required) {
+        return { args: null, error: `Missing required option \`${name}\`.` };
+      }
+      args[name] = null;
+      continue;
+    }
+
+    const error = validateOption(name, def, value);
+    if (error) return { args: null, error };
+
+    args[name] = value;
+  }
+
+  return { args: args as ParsedOptions<S>, error: null };
+}
@@ -0,0 +1,22 @@
+import { Client, Team } from 'discord.js';
+
+/**
+ * Fetches the IDs of the users owning the bot's Discord application.
+ *
+ * For applications owned by a team, all team members are returned.
+ *
+ * @param client - The Discord client instance (must be logged in)
+ * @returns The user IDs of the application owner(s)
+ */
+export async function fetchApplicationOwnerIds(
+  client: Client,
+): Promise<string[]> {
+  const application = await client.application?.fetch();
+  const owner = application?.owner;
+
+  if (!owner) return [];
+  if (owner instanceof Team) {
+    return owner.members.map((member) => member.id);
+  }
+  return [owner.id];
+}
@@ -13,11 +13,17 @@ export function getPermissionsForLevel(level: PermissionLevel): bigint | null {
     return PermissionFlagsBits.Administrator;
   }
 
-  if (level === 'owner' || level === 'disabled') {
+  if (level === 'disabled') {
     // disable the command by default
     return BigInt(0);
   }
 
+  if (level === 'owner') {
+    // visible, but only bot owners can run it (enforced by the CommandManager).
+    // Set a devGuildId in CommandManager.setOwners to only deploy it there
+    return null;
+  }
+
   if (typeof level === 'bigint' || typeof level === 'number') {
     return BigInt(level);
   }
@@ -0,0 +1,142 @@
+import { RateLimitOptions } from '../types/rateLimit.js';
+
+import { TIMES_MILISECONDS } from './miliseconds.js';
+
+/**
+ * Token buckets with the bucket key as key.
+ *
+ * `tokens` is the number of uses left at `updatedAt` (ms timestamp), the
+ * capacity and refill rate are kept so full buckets can be cleaned up.
+ */
+const buckets: Map<
+  string,
+  { tokens: number; updatedAt: number; capacity: number; refillPerMs: number }
+> = new Map();
+
+/**
+ * Number of currently running invocations, keyed by concurrency bucket key.
+ */
+const running: Map<string, number> = new Map();
+
+/** When the buckets were last swept for full ones, see `sweepBuckets` */
+let lastSweep = Date.now();
+
+/**
+ * Removes buckets that are full again, at most once a minute so checks
+ * don't have to go through every bucket.
+ */
+function sweepBuckets(now: number) {
+  if (now - lastSweep < TIMES_MILISECONDS.MINUTE) return;
+  lastSweep = now;
+
+  for (const [key, b] of buckets) {
+    if (b.tokens + (now - b.updatedAt) * b.refillPerMs >= b.capacity) {
+      buckets.delete(key);
+    }
+  }
+}
+
+/**
+ * Gets the number of tokens in a rate limit bucket right now.
+ */
+function getTokens(key: string, options: RateLimitOptions, now: number) {
+  const capacity = options.burst ?? options.uses;
+  const refillPerMs = options.uses / options.per;
+
+  sweepBuckets(now);
+
+  const previous = buckets.get(key);
+  const tokens = previous
+    ? Math.min(
+        capacity,
+        previous.tokens + (now - previous.updatedAt) * refillPerMs,
+      )
+    : capacity;
+
+  // A full bucket is the same as no bucket
+  if (previous && tokens >= capacity) buckets.delete(key);
+
+  return { tokens, capacity, refillPerMs };
+}
+
+/**
+ * Checks whether a rate limit bucket has a token left, without taking it.
+ *
+ * @param key - The bucket key, see `getCooldownKey`
+ * @param options - The rate limit configuration
+ * @returns 0 if a token is available, otherwise the milliseconds until the next token is available
+ */
+export function getRateLimitRetryAfter(
+  key: string,
+  options: RateLimitOptions,
+): number {
+  const { tokens, refillPerMs } = getTokens(key, options, Date.now());
+
+  return tokens < 1 ? Math.ceil((1 - tokens) / refillPerMs) : 0;
+}
+
+/**
+ * Takes a token from a rate limit bucket.
+ *
+ * @param key - The bucket key, see `getCooldownKey`
+ * @param options - The rate limit configuration
+ * @returns 0 if a token was taken, otherwise the milliseconds until the next token is available
+ */
+export function consumeRateLimit(
+  key: string,
+  options: RateLimitOptions,
+): number {
+  const now = Date.now();
+  const { tokens, capacity, refillPerMs } = getTokens(key, options, now);
+
+  if (tokens < 1) {
+    buckets.set(key, { tokens, updatedAt: now, capacity, refillPerMs });
+    return Math.ceil((1 - tokens) / refillPerMs);
+  }
+
+  buckets.set(key, {
+    tokens: tokens - 1,
+    updatedAt: now,
+    capacity,
+    refillPerMs,
+  });
+  return 0;
+}
+
+/**
+ * Checks whether another invocation fits within a concurrency limit.
+ *
+ * @param key - The bucket key, see `getCooldownKey`
+ * @param limit - The maximum number of concurrent invocations
+ * @returns true if `acquireConcurrency` would succeed
+ */
+export function hasConcurrencySlot(key: string, limit: number): boolean {
+  return (running.get(key) ?? 0) < limit;
+}
+
+/**
+ * Tries to start an invocation within a concurrency limit.
+ *
+ * @param key - The bucket key, see `getCooldownKey`
+ * @param limit - The maximum number of concurrent invocations
+ * @returns A function to call once the invocation finished, or null if the limit is reached
+ */
+export function acquireConcurrency(
+  key: string,
+  limit: number,
+): (() => void) | null {
+  const count = running.get(key) ?? 0;
+  if (count >= limit) return null;
+
+  running.set(key, count + 1);
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+
+    const current = (running.get(key) ?? 1) - 1;
+    if (current <= 0) running.delete(key);
+    else running.set(key, current);
+  };
+}